@@ -0,0 +1,141 @@
+/**
+ * Adapter is everything aracari needs to know about a tree of nodes. The DOM
+ * adapter is used by default, other adapters let aracari work on trees that
+ * are not part of a DOM like a parsed HTML string.
+ */
+export interface Adapter<N = Node> {
+  getChildNodes: (node: N) => N[];
+  // Child at an index and siblings of a node, these are used when walking
+  // addresses so they should not copy the list of children.
+  getChildAt: (node: N, index: number) => N | null;
+  getPreviousSibling: (node: N) => N | null;
+  getNextSibling: (node: N) => N | null;
+  getParentNode: (node: N) => N | null;
+  isTextNode: (node: N) => boolean;
+  // Text of a text node.
+  getTextContent: (node: N) => string;
+  // Lower case tag name of an element, null for any other node.
+  getTagName: (node: N) => string | null;
+  getAttribute: (node: N, name: string) => string | null;
+  // Used to replace text in attributes when they are read.
+  setAttribute?: (node: N, name: string, value: string) => void;
+  // Checks an element against a CSS selector, always false for other nodes.
+  matches: (node: N, selector: string) => boolean;
+  createTextNode: (text: string) => N;
+  // Adds the node to the parent before the reference node, or at the end of
+  // the parent when the reference node is null.
+  insertBefore: (parent: N, node: N, reference: N | null) => void;
+  removeNode: (node: N) => void;
+  // Turns the children of the node into HTML.
+  serialize?: (node: N) => string;
+  // Used to cross into shadow roots and frames when that is turned on.
+  getShadowRoot?: (node: N) => N | null;
+  getFrameDocument?: (node: N) => N | null;
+  // Nodes slotted into a slot element, empty when the slot shows its
+  // fallback content.
+  getAssignedNodes?: (node: N) => N[];
+  // Element a shadow root or frame document belongs to.
+  getHost?: (node: N) => N | null;
+}
+
+// Node.ELEMENT_NODE
+const ELEMENT_NODE = 1;
+// Node.DOCUMENT_NODE
+const DOCUMENT_NODE = 9;
+// Node.DOCUMENT_FRAGMENT_NODE, which is what shadow roots are
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+// Inputs show their value property, which is the value attribute until the
+// field is edited. Checkboxes and radio buttons do not show theirs.
+const isValueShown = (node: Node, name: string) =>
+  name === "value" &&
+  node.nodeType === ELEMENT_NODE &&
+  (node as Element).tagName.toLowerCase() === "input" &&
+  !["checkbox", "radio"].includes((node as HTMLInputElement).type);
+
+interface DOMAdapterOptions {
+  textNodeType?: number;
+  createTextNode?: (text: string) => Node;
+}
+
+/**
+ * createDOMAdapter makes the default adapter for DOM nodes. The document is
+ * only used when a text node is created so this can be made without a DOM.
+ */
+export const createDOMAdapter = ({
+  // Node.TEXT_NODE
+  textNodeType = 3,
+  createTextNode = (text) => document.createTextNode(text),
+}: DOMAdapterOptions = {}): Adapter<Node> => ({
+  getChildNodes: (node) => Array.from(node.childNodes ?? []),
+  getChildAt: (node, index) => node.childNodes?.[index] ?? null,
+  getPreviousSibling: (node) => node.previousSibling,
+  getNextSibling: (node) => node.nextSibling,
+  getParentNode: (node) => node.parentNode,
+  isTextNode: (node) => node.nodeType === textNodeType,
+  getTextContent: (node) => node.textContent ?? "",
+  getTagName: (node) =>
+    node.nodeType === ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : null,
+  getAttribute: (node, name) => {
+    if (isValueShown(node, name)) {
+      return (node as HTMLInputElement).value;
+    }
+    return node.nodeType === ELEMENT_NODE
+      ? (node as Element).getAttribute(name)
+      : null;
+  },
+  setAttribute: (node, name, value) => {
+    if (isValueShown(node, name)) {
+      (node as HTMLInputElement).value = value;
+    } else {
+      (node as Element).setAttribute(name, value);
+    }
+  },
+  matches: (node, selector) =>
+    node.nodeType === ELEMENT_NODE && (node as Element).matches(selector),
+  createTextNode,
+  insertBefore: (parent, node, reference) => {
+    parent.insertBefore(node, reference);
+  },
+  removeNode: (node) => {
+    node.parentNode?.removeChild(node);
+  },
+  serialize: (node) => (node as Element).innerHTML,
+  // Only open shadow roots can be read.
+  getShadowRoot: (node) =>
+    node.nodeType === ELEMENT_NODE ? (node as Element).shadowRoot : null,
+  getFrameDocument: (node) => {
+    try {
+      return (node as HTMLIFrameElement).contentDocument ?? null;
+    } catch (e) {
+      // Cross origin frames can not be read.
+      return null;
+    }
+  },
+  getAssignedNodes: (node) =>
+    typeof (node as HTMLSlotElement).assignedNodes === "function"
+      ? (node as HTMLSlotElement).assignedNodes({ flatten: true })
+      : [],
+  getHost: (node) => {
+    if (node.nodeType === DOCUMENT_FRAGMENT_NODE) {
+      return (node as ShadowRoot).host ?? null;
+    }
+    return node.nodeType === DOCUMENT_NODE
+      ? (node as Document).defaultView?.frameElement ?? null
+      : null;
+  },
+});
+
+/**
+ * containsNode checks if a node is inside of the parent or is the parent.
+ */
+export const containsNode = <N>(adapter: Adapter<N>, parent: N, node: N) => {
+  let current: N | null = node;
+  while (current) {
+    if (current === parent) {
+      return true;
+    }
+    current = adapter.getParentNode(current);
+  }
+  return false;
+};
@@ -0,0 +1,83 @@
+import { countMatchingChars } from "./utils";
+
+/**
+ * Anchor describes a range of text in a way that survives changes to the
+ * document. It combines a quote of the text with the text around it, the
+ * position of the text and the path to the text nodes at the time the anchor
+ * was made. Anchors are plain objects so they can be stored as JSON.
+ */
+export interface Anchor {
+  quote: {
+    exact: string;
+    prefix: string;
+    suffix: string;
+  };
+  position: {
+    start: number;
+    end: number;
+  };
+  path: {
+    address: string;
+    startOffset: number;
+    endAddress: string;
+    endOffset: number;
+  };
+}
+
+const DEFAULT_CONTEXT_LENGTH = 32;
+
+/**
+ * createQuote takes the exact text of a range and the text around it.
+ */
+export const createQuote = (
+  text: string,
+  start: number,
+  end: number,
+  contextLength: number = DEFAULT_CONTEXT_LENGTH
+): Anchor["quote"] => ({
+  exact: text.slice(start, end),
+  prefix: text.slice(Math.max(start - contextLength, 0), start),
+  suffix: text.slice(end, end + contextLength),
+});
+
+/**
+ * findQuote finds where the quote of an anchor is in the text. Every place the
+ * exact text shows up is scored by how much of the prefix and suffix still
+ * match, with a bonus for being at one of the expected starts. Ties go to the
+ * place closest to the first expected start. Returns null when the exact text
+ * is gone.
+ */
+export const findQuote = (
+  text: string,
+  { exact, prefix, suffix }: Anchor["quote"],
+  expectedStarts: number[]
+) => {
+  if (!exact.length) {
+    return null;
+  }
+  let best: number | null = null;
+  let bestScore = -Infinity;
+  let index = text.indexOf(exact);
+  while (index !== -1) {
+    const end = index + exact.length;
+    const contextScore =
+      countMatchingChars(
+        text.slice(Math.max(index - prefix.length, 0), index),
+        prefix,
+        true
+      ) +
+      countMatchingChars(text.slice(end, end + suffix.length), suffix, false);
+    const positionScore = expectedStarts.filter((start) => start === index)
+      .length;
+    const distance = expectedStarts.length
+      ? Math.abs(index - expectedStarts[0]) / (text.length + 1)
+      : 0;
+    const score = contextScore * 2 + positionScore - distance;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+    index = text.indexOf(exact, index + 1);
+  }
+  return best;
+};
@@ -0,0 +1,181 @@
+import { Mapping } from "./mapping";
+import { countMatchingChars } from "./utils";
+
+export type TextChangeType = "insert" | "delete" | "modify";
+
+export interface TextChangeSide {
+  text: string;
+  // Range of the change in the text from getText.
+  start: number;
+  end: number;
+  // Addresses of the entries the range is in, empty when the range is.
+  addresses: string[];
+}
+
+/**
+ * TextChange is a change between two mappings. An insert has no text before
+ * and a delete has no text after, the start of the empty side is where the
+ * text was added or removed.
+ */
+export interface TextChange {
+  type: TextChangeType;
+  before: TextChangeSide;
+  after: TextChangeSide;
+}
+
+// Runs of changed entries bigger than this are not aligned, they are treated
+// as one change to keep the table of the alignment small.
+const MAX_ALIGNED_CELLS = 4000000;
+
+interface Entry {
+  text: string;
+  address: string;
+  start: number;
+}
+
+const toEntries = (mapping: Mapping) => {
+  let start = 0;
+  return mapping.map(([text, address]) => {
+    const entry = { text, address, start };
+    start += text.length;
+    return entry;
+  });
+};
+
+// Pairs up the entries of both lists that have the same text, keeping them
+// in order, with the longest common subsequence of the entry texts.
+const alignEntries = (before: Entry[], after: Entry[]) => {
+  const pairs: [number, number][] = [];
+  let head = 0;
+  while (
+    head < before.length &&
+    head < after.length &&
+    before[head].text === after[head].text
+  ) {
+    pairs.push([head, head]);
+    head += 1;
+  }
+  let tail = 0;
+  while (
+    tail < before.length - head &&
+    tail < after.length - head &&
+    before[before.length - 1 - tail].text ===
+      after[after.length - 1 - tail].text
+  ) {
+    tail += 1;
+  }
+  // Only the entries between the common start and end are compared.
+  let rows = before.length - head - tail;
+  let columns = after.length - head - tail;
+  if ((rows + 1) * (columns + 1) > MAX_ALIGNED_CELLS) {
+    rows = 0;
+    columns = 0;
+  }
+  const lengths = new Uint32Array((rows + 1) * (columns + 1));
+  const at = (row: number, column: number) => row * (columns + 1) + column;
+  for (let row = rows - 1; row >= 0; row--) {
+    for (let column = columns - 1; column >= 0; column--) {
+      lengths[at(row, column)] =
+        before[head + row].text === after[head + column].text
+          ? lengths[at(row + 1, column + 1)] + 1
+          : Math.max(
+              lengths[at(row + 1, column)],
+              lengths[at(row, column + 1)]
+            );
+    }
+  }
+  let row = 0;
+  let column = 0;
+  while (row < rows && column < columns) {
+    if (before[head + row].text === after[head + column].text) {
+      pairs.push([head + row, head + column]);
+      row += 1;
+      column += 1;
+    } else if (lengths[at(row + 1, column)] >= lengths[at(row, column + 1)]) {
+      row += 1;
+    } else {
+      column += 1;
+    }
+  }
+  for (let i = tail; i > 0; i--) {
+    pairs.push([before.length - i, after.length - i]);
+  }
+  return pairs;
+};
+
+const getAddresses = (entries: Entry[], start: number, end: number) =>
+  start === end
+    ? []
+    : entries
+        .filter(
+          (entry) =>
+            entry.start < end && entry.start + entry.text.length > start
+        )
+        .map(({ address }) => address);
+
+/**
+ * diffMappings compares two mappings of the same root. Entries with the same
+ * text are paired up first, then the text of each run of entries in between
+ * is narrowed down to the characters that changed.
+ */
+export const diffMappings = (before: Mapping, after: Mapping): TextChange[] => {
+  const beforeEntries = toEntries(before);
+  const afterEntries = toEntries(after);
+  const beforeText = before.map(([text]) => text).join("");
+  const afterText = after.map(([text]) => text).join("");
+  const pairs = alignEntries(beforeEntries, afterEntries);
+  // The end of both texts closes the last run of changed entries.
+  pairs.push([beforeEntries.length, afterEntries.length]);
+
+  const getStart = (entries: Entry[], index: number, text: string) =>
+    index < entries.length ? entries[index].start : text.length;
+  const changes: TextChange[] = [];
+  let previous: [number, number] = [-1, -1];
+  pairs.forEach((pair) => {
+    const [beforeIndex, afterIndex] = pair;
+    let beforeStart = getStart(beforeEntries, previous[0] + 1, beforeText);
+    let afterStart = getStart(afterEntries, previous[1] + 1, afterText);
+    let beforeEnd = getStart(beforeEntries, beforeIndex, beforeText);
+    let afterEnd = getStart(afterEntries, afterIndex, afterText);
+    previous = pair;
+
+    const removed = beforeText.slice(beforeStart, beforeEnd);
+    const added = afterText.slice(afterStart, afterEnd);
+    const head = countMatchingChars(removed, added, false);
+    const tail = countMatchingChars(
+      removed.slice(head),
+      added.slice(head),
+      true
+    );
+    beforeStart += head;
+    afterStart += head;
+    beforeEnd -= tail;
+    afterEnd -= tail;
+    if (beforeStart === beforeEnd && afterStart === afterEnd) {
+      return;
+    }
+
+    let type: TextChangeType = "modify";
+    if (beforeStart === beforeEnd) {
+      type = "insert";
+    } else if (afterStart === afterEnd) {
+      type = "delete";
+    }
+    changes.push({
+      type,
+      before: {
+        text: beforeText.slice(beforeStart, beforeEnd),
+        start: beforeStart,
+        end: beforeEnd,
+        addresses: getAddresses(beforeEntries, beforeStart, beforeEnd),
+      },
+      after: {
+        text: afterText.slice(afterStart, afterEnd),
+        start: afterStart,
+        end: afterEnd,
+        addresses: getAddresses(afterEntries, afterStart, afterEnd),
+      },
+    });
+  });
+  return changes;
+};
@@ -0,0 +1,75 @@
+import { Matcher } from "./matcher";
+
+/**
+ * Reasons a change to the text can fail.
+ *
+ * - `not-found` the text is not in the root, or not at the address.
+ * - `spans-multiple-nodes` the text is only found across text nodes, pass
+ *   `acrossNodes` to replace it.
+ * - `stale-address` the address does not point at a text node, the mapping
+ *   needs a remap.
+ * - `index-out-of-range` there are fewer matches than the index asked for, or
+ *   an index is outside of the text.
+ * - `no-root` aracari was made from a mapping and has no root to change, use
+ *   attach to give it one.
+ */
+export type AracariErrorCode =
+  | "not-found"
+  | "spans-multiple-nodes"
+  | "stale-address"
+  | "index-out-of-range"
+  | "no-root";
+
+interface AracariErrorDetails {
+  text?: Matcher;
+  address?: string;
+  index?: number;
+}
+
+/**
+ * AracariError is thrown for failures that come from the text or addresses
+ * passed in, the code tells them apart without reading the message.
+ */
+export class AracariError extends Error {
+  code: AracariErrorCode;
+  text?: Matcher;
+  address?: string;
+  index?: number;
+
+  constructor(
+    code: AracariErrorCode,
+    message: string,
+    { text, address, index }: AracariErrorDetails = {}
+  ) {
+    super(message);
+    // Keeps instanceof working when compiled to ES5.
+    Object.setPrototypeOf(this, AracariError.prototype);
+    this.name = "AracariError";
+    this.code = code;
+    this.text = text;
+    this.address = address;
+    this.index = index;
+  }
+}
+
+/**
+ * Result of the try variants of methods that throw an AracariError, which
+ * return the error in place of throwing it.
+ */
+export type AracariResult =
+  | { ok: true }
+  | { ok: false; error: AracariError };
+
+/**
+ * describeMatcher formats a matcher for an error message.
+ */
+export const describeMatcher = (text: Matcher) => {
+  if (typeof text === "string") {
+    return `"${text}"`;
+  }
+  if (text instanceof RegExp) {
+    return `${text}`;
+  }
+  const terms = Array.isArray(text) ? text : Object.keys(text);
+  return terms.map((term) => `"${term}"`).join(", ");
+};
@@ -0,0 +1,192 @@
+import { Adapter } from "./adapters";
+import { toHTML, toPropertyName } from "./html";
+
+/**
+ * A small subset of the hast types (https://github.com/syntax-tree/hast), only
+ * what aracari reads or writes is typed here.
+ */
+export interface HastProperties {
+  [name: string]:
+    | string
+    | number
+    | boolean
+    | (string | number)[]
+    | null
+    | undefined;
+}
+
+export interface HastText {
+  type: "text";
+  value: string;
+}
+
+export interface HastComment {
+  type: "comment";
+  value: string;
+}
+
+export interface HastDoctype {
+  type: "doctype";
+}
+
+export interface HastElement {
+  type: "element";
+  tagName: string;
+  properties?: HastProperties;
+  children: HastNode[];
+}
+
+export interface HastRoot {
+  type: "root";
+  children: HastNode[];
+}
+
+export type HastParent = HastRoot | HastElement;
+
+export type HastNode = HastRoot | HastElement | HastText | HastComment | HastDoctype;
+
+const hasChildren = (node: HastNode): node is HastParent =>
+  "children" in node && Array.isArray(node.children);
+
+const selectorPartPattern =
+  /(?:(\*)|([a-zA-Z][-\w]*)|#([-\w]+)|\.([-\w]+)|\[\s*([-\w:]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]*)))?\s*\])/y;
+
+/**
+ * getHastAttribute reads a property of an element the way it would be read as
+ * an attribute in the DOM.
+ */
+export const getHastAttribute = (node: HastNode, name: string) => {
+  if (node.type !== "element") {
+    return null;
+  }
+  const value = node.properties?.[toPropertyName(name.toLowerCase())];
+  if (value === false || value === null || value === undefined) {
+    return null;
+  }
+  if (value === true) {
+    return "";
+  }
+  return Array.isArray(value) ? value.join(" ") : `${value}`;
+};
+
+/**
+ * matchesSelector checks a hast element against a list of simple selectors,
+ * made of tag names, `*`, `#id`, `.class`, `[attribute]` and
+ * `[attribute=value]`. Combinators are not supported.
+ */
+export const matchesSelector = (node: HastNode, selector: string) => {
+  if (node.type !== "element") {
+    return false;
+  }
+  return selector.split(",").some((compound) => {
+    const source = compound.trim();
+    let matched = true;
+    let index = 0;
+    while (index < source.length) {
+      selectorPartPattern.lastIndex = index;
+      const part = selectorPartPattern.exec(source);
+      if (!part) {
+        throw new Error(`Unsupported selector "${compound.trim()}"`);
+      }
+      const [token, , tagName, id, className, attribute, ...values] = part;
+      const value = values.find((x) => x !== undefined);
+      if (tagName) {
+        matched = matched && node.tagName === tagName.toLowerCase();
+      } else if (id) {
+        matched = matched && getHastAttribute(node, "id") === id;
+      } else if (className) {
+        const classes = (getHastAttribute(node, "class") ?? "").split(/\s+/);
+        matched = matched && classes.includes(className);
+      } else if (attribute) {
+        const actual = getHastAttribute(node, attribute);
+        matched =
+          matched &&
+          actual !== null &&
+          (value === undefined || actual === value);
+      }
+      index += token.length;
+    }
+    return source.length > 0 && matched;
+  });
+};
+
+/**
+ * createHastAdapter makes an adapter for a hast tree. Hast nodes do not know
+ * their parent so the adapter keeps an index of parents for the tree, which
+ * is rebuilt when a node is not where the index expects it to be.
+ */
+export const createHastAdapter = (root: HastParent): Adapter<HastNode> => {
+  const parents = new WeakMap<HastNode, HastParent>();
+  const indexParents = (parent: HastParent) => {
+    const stack = [parent];
+    while (stack.length) {
+      const next = stack.pop()!;
+      next.children.forEach((child) => {
+        parents.set(child, next);
+        if (hasChildren(child)) {
+          stack.push(child);
+        }
+      });
+    }
+  };
+  const getParentNode = (node: HastNode) => {
+    let parent = parents.get(node);
+    if (!parent || !parent.children.includes(node)) {
+      indexParents(root);
+      parent = parents.get(node);
+    }
+    return parent && parent.children.includes(node) ? parent : null;
+  };
+  const getSibling = (node: HastNode, offset: number) => {
+    const parent = getParentNode(node);
+    return parent
+      ? parent.children[parent.children.indexOf(node) + offset] ?? null
+      : null;
+  };
+  const removeNode = (node: HastNode) => {
+    const parent = getParentNode(node);
+    if (parent) {
+      parent.children.splice(parent.children.indexOf(node), 1);
+    }
+    parents.delete(node);
+  };
+
+  return {
+    getChildNodes: (node) => (hasChildren(node) ? [...node.children] : []),
+    getChildAt: (node, index) =>
+      hasChildren(node) ? node.children[index] ?? null : null,
+    getPreviousSibling: (node) => getSibling(node, -1),
+    getNextSibling: (node) => getSibling(node, 1),
+    getParentNode,
+    isTextNode: (node) => node.type === "text",
+    getTextContent: (node) =>
+      node.type === "text" || node.type === "comment" ? node.value : "",
+    getTagName: (node) => (node.type === "element" ? node.tagName : null),
+    getAttribute: getHastAttribute,
+    setAttribute: (node, name, value) => {
+      if (node.type === "element") {
+        node.properties = {
+          ...node.properties,
+          [toPropertyName(name.toLowerCase())]: value,
+        };
+      }
+    },
+    matches: matchesSelector,
+    createTextNode: (value) => ({ type: "text", value }),
+    insertBefore: (parent, node, reference) => {
+      if (!hasChildren(parent)) {
+        throw new Error(`Can not add children to a ${parent.type} node`);
+      }
+      removeNode(node);
+      const index = reference ? parent.children.indexOf(reference) : -1;
+      parent.children.splice(
+        index === -1 ? parent.children.length : index,
+        0,
+        node
+      );
+      parents.set(node, parent);
+    },
+    removeNode,
+    serialize: (node) => (hasChildren(node) ? toHTML(node.children) : ""),
+  };
+};
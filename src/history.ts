@@ -0,0 +1,175 @@
+import { Adapter } from "./adapters";
+
+export type ChangeType = "replace" | "wrap" | "unwrap" | "insert";
+
+/**
+ * ChangeRecord holds everything needed to revert or reapply a single change to
+ * the DOM. The original nodes are the siblings that were taken out and the
+ * inserted nodes are the ones that were put in their place.
+ */
+export interface ChangeRecord<N = Node> {
+  type: ChangeType;
+  // Address of the first original node at the time of the change.
+  address: string;
+  original: N[];
+  inserted: N[];
+  parent: N;
+  // Sibling after the original nodes, used to find the place of the change
+  // when no nodes were inserted.
+  nextSibling: N | null;
+  // Set when the inserted nodes were the children of this node, they are
+  // moved back into it when the change is reverted.
+  container?: N;
+  // Set when text in an attribute of the parent was changed, in which case
+  // no nodes were taken out or put in.
+  attribute?: AttributeChange;
+}
+
+export interface AttributeChange {
+  name: string;
+  before: string;
+  after: string;
+}
+
+const setAttribute = <N>(
+  adapter: Adapter<N>,
+  node: N,
+  name: string,
+  value: string
+) => {
+  if (!adapter.setAttribute) {
+    throw new Error("The adapter can not change attributes");
+  }
+  adapter.setAttribute(node, name, value);
+};
+
+/**
+ * applyChange swaps the original nodes of a change with the inserted nodes.
+ */
+export const applyChange = <N>(
+  { original, inserted, parent, attribute }: ChangeRecord<N>,
+  adapter: Adapter<N>
+) => {
+  if (attribute) {
+    setAttribute(adapter, parent, attribute.name, attribute.after);
+    return;
+  }
+  const reference = original.find(
+    (node) => adapter.getParentNode(node) === parent
+  );
+  inserted.forEach((node) =>
+    adapter.insertBefore(parent, node, reference ?? null)
+  );
+  original.forEach(adapter.removeNode);
+};
+
+/**
+ * revertChange puts the original nodes of a change back in place of the
+ * inserted nodes.
+ */
+export const revertChange = <N>(
+  {
+    original,
+    inserted,
+    parent,
+    nextSibling,
+    attribute,
+    container,
+  }: ChangeRecord<N>,
+  adapter: Adapter<N>
+) => {
+  if (attribute) {
+    setAttribute(adapter, parent, attribute.name, attribute.before);
+    return;
+  }
+  const reference =
+    inserted.find((node) => adapter.getParentNode(node) === parent) ??
+    nextSibling;
+  original.forEach((node) => adapter.insertBefore(parent, node, reference));
+  inserted.forEach((node) =>
+    container
+      ? adapter.insertBefore(container, node, null)
+      : adapter.removeNode(node)
+  );
+};
+
+/**
+ * ChangeLog keeps the changes made to the DOM in groups so they can be undone
+ * and redone together. Changes recorded between `begin` and `commit` are
+ * grouped into a single transaction, transactions can be nested and only the
+ * outer most one adds a group to the log.
+ */
+export class ChangeLog<N = Node> {
+  undoStack: ChangeRecord<N>[][] = [];
+  redoStack: ChangeRecord<N>[][] = [];
+  private pending: ChangeRecord<N>[] = [];
+  private marks: number[] = [];
+
+  // Only the last limit groups are kept, older ones can no longer be undone.
+  constructor(private adapter: Adapter<N>, private limit = Infinity) {}
+
+  public begin() {
+    this.marks.push(this.pending.length);
+  }
+
+  public record(change: ChangeRecord<N>) {
+    this.pending.push(change);
+    if (!this.marks.length) {
+      this.marks.push(0);
+      this.commit();
+    }
+  }
+
+  public commit() {
+    this.marks.pop();
+    if (this.marks.length || !this.pending.length) {
+      return;
+    }
+    this.undoStack.push(this.pending);
+    this.undoStack.splice(0, this.undoStack.length - this.limit);
+    this.redoStack = [];
+    this.pending = [];
+  }
+
+  // Forgets every group in the log, the changes themselves are kept.
+  public clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  // Reverts the changes recorded since the last call to begin.
+  public rollback() {
+    const mark = this.marks.pop() ?? 0;
+    const changes = this.pending.splice(mark);
+    changes.reverse().forEach((change) => revertChange(change, this.adapter));
+    return changes;
+  }
+
+  public canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  public undo() {
+    const changes = this.undoStack.pop();
+    if (changes) {
+      [...changes]
+        .reverse()
+        .forEach((change) => revertChange(change, this.adapter));
+      this.redoStack.push(changes);
+    }
+    return changes ?? null;
+  }
+
+  public redo() {
+    const changes = this.redoStack.pop();
+    if (changes) {
+      changes.forEach((change) => applyChange(change, this.adapter));
+      this.undoStack.push(changes);
+    }
+    return changes ?? null;
+  }
+}
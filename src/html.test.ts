@@ -0,0 +1,165 @@
+/**
+ * @jest-environment node
+ */
+import {
+  Aracari,
+  createHastAdapter,
+  HastElement,
+  HastNode,
+  HastRoot,
+  parseHTML,
+  toHTML,
+} from ".";
+
+const html = `<p>An <b>aracari</b> or <b>araçari</b> is any of the medium-sized <a href="/wiki/Toucan" title="Toucan">toucans</a> that, together with the <a href="/wiki/Saffron_toucanet" title="Saffron toucanet">saffron toucanet</a>, make up the genus <i><b>Pteroglossus</b></i>.</p>`;
+
+const mark = (): HastElement => ({
+  type: "element",
+  tagName: "mark",
+  properties: {},
+  children: [],
+});
+
+describe("Aracari without a DOM", () => {
+  test("fromHTML should pull the text from an HTML string", () => {
+    const aracari = Aracari.fromHTML(html);
+    expect(aracari.getText()).toBe(
+      "An aracari or araçari is any of the medium-sized toucans that, together with the saffron toucanet, make up the genus Pteroglossus."
+    );
+    expect(aracari.getAddressForText("toucans")).toBe("0.5.0");
+  });
+  test("toHTML should return the HTML with the replaced text", () => {
+    const aracari = Aracari.fromHTML(html);
+    aracari
+      .replaceText("toucans", { type: "text", value: "tucanes" })
+      .remap()
+      .replaceText("An aracari", { type: "text", value: "Un arasari" }, {
+        acrossNodes: true,
+      })
+      .remap();
+    expect(aracari.toHTML()).toBe(
+      html
+        .replace(">toucans<", ">tucanes<")
+        .replace("An <b>aracari</b>", "Un arasari<b></b>")
+    );
+  });
+  test("wrapText and unwrap should work on an HTML string", () => {
+    const aracari = Aracari.fromHTML("<p>foo bar &amp; <b>foo</b></p>");
+    const handles = aracari.wrapText("foo", mark);
+    expect(aracari.toHTML()).toBe(
+      "<p><mark>foo</mark> bar &amp; <b><mark>foo</mark></b></p>"
+    );
+    aracari.unwrap(handles);
+    expect(aracari.toHTML()).toBe("<p>foo bar &amp; <b>foo</b></p>");
+    aracari.undo();
+    expect(aracari.getText()).toBe("foo bar & foo");
+    expect(aracari.toHTML()).toBe(
+      "<p><mark>foo</mark> bar &amp; <b><mark>foo</mark></b></p>"
+    );
+  });
+  test("createHastAdapter should let aracari work on a hast tree", () => {
+    const tree: HastRoot = {
+      type: "root",
+      children: [
+        {
+          type: "element",
+          tagName: "p",
+          properties: { className: ["intro"] },
+          children: [
+            { type: "text", value: "An " },
+            {
+              type: "element",
+              tagName: "b",
+              children: [{ type: "text", value: "aracari" }],
+            },
+          ],
+        },
+      ],
+    };
+    const aracari = new Aracari(tree, { adapter: createHastAdapter(tree) });
+    aracari.wrapText("aracari", mark);
+    expect(toHTML(tree)).toBe(
+      '<p class="intro">An <b><mark>aracari</mark></b></p>'
+    );
+  });
+  test("parseHTML and toHTML should keep comments, void elements, raw text and attributes", () => {
+    const source =
+      '<!doctype html><p data-note-id="1" hidden>a &lt; b<br>c<!-- note --></p><script>if (a < b) {}</script><img alt="&quot;x&quot;">';
+    const tree = parseHTML(source);
+    expect(tree.children[1]).toMatchObject({
+      tagName: "p",
+      properties: { dataNoteId: "1", hidden: true },
+    });
+    expect(toHTML(tree)).toBe(source);
+  });
+  test("parseHTML should replace invalid numeric references with U+FFFD", () => {
+    const aracari = Aracari.fromHTML(
+      "<p>&#x110000;&#0;&#xD800;&#99999999999;&#231;&#x1F99C;</p>"
+    );
+    expect(aracari.getText()).toBe("\ufffd\ufffd\ufffd\ufffdç🦜");
+  });
+  test("toHTML should keep named references it does not know as they are", () => {
+    const source = '<p title="&eacute;t&eacute;">caf&eacute; &trade; &amp; &constructor;</p>';
+    const aracari = Aracari.fromHTML(source);
+    expect(aracari.getText()).toBe("caf&eacute; &trade; & &constructor;");
+    expect(aracari.toHTML()).toBe(source);
+  });
+  test("fromHTML should separate blocks and leave out excluded elements", () => {
+    const aracari = Aracari.fromHTML(
+      '<h1>Toucans</h1>\n<p class="lead">\n  Big   bills<sup class="reference">[1]</sup>\n</p><script>track()</script>',
+      {
+        blockSeparator: "\n",
+        collapseWhitespace: true,
+        exclude: "script, sup.reference",
+      }
+    );
+    expect(aracari.getText()).toBe("Toucans\nBig bills");
+    expect(aracari.search("bills")[0]).toMatchObject({
+      address: "2.0",
+      startOffset: 9,
+      endOffset: 14,
+    });
+  });
+  test("fromJSON should reuse a mapping made from the same HTML", () => {
+    const json = JSON.stringify(Aracari.fromHTML(html));
+    const tree = parseHTML(html);
+    const aracari = Aracari.fromJSON<HastRoot, HastNode>(json, {
+      adapter: createHastAdapter(tree),
+    });
+    expect(aracari.attach(tree).valid).toBe(true);
+    aracari.wrapText("toucans", mark);
+    expect(toHTML(tree)).toContain("<mark>toucans</mark>");
+  });
+  test("the mapping should be built for trees deeper than the call stack", () => {
+    let node: HastNode = { type: "text", value: "deep" };
+    for (let i = 0; i < 20000; i++) {
+      node = { type: "element", tagName: "span", children: [node] };
+    }
+    const tree: HastRoot = { type: "root", children: [node] };
+    const aracari = new Aracari<HastRoot, HastNode>(tree, {
+      adapter: createHastAdapter(tree),
+    });
+    expect(aracari.getText()).toBe("deep");
+    expect(aracari.getTextNode("deep")).toMatchObject({ value: "deep" });
+    aracari.replaceText("deep", "deeper").remap();
+    expect(aracari.getText()).toBe("deeper");
+    expect(toHTML(tree)).toBe(
+      `${"<span>".repeat(20000)}deeper${"</span>".repeat(20000)}`
+    );
+  });
+  test("replaceAll when passed attributes should replace text in them", () => {
+    const aracari = Aracari.fromHTML(html, { attributes: ["title"] });
+    const report = aracari.replaceAll(/toucan(et)?/i, (match) =>
+      match.text.replace(/toucan/i, "tucano")
+    );
+    // "toucans" is not a whole word match.
+    expect(report.replacements.map(({ match }) => match.address)).toEqual([
+      "0.5@title",
+      "0.7@title",
+      "0.7.0",
+    ]);
+    expect(aracari.toHTML()).toContain(
+      `<a href="/wiki/Saffron_toucanet" title="Saffron tucanoet">saffron tucanoet</a>`
+    );
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  HastElement,
+  HastNode,
+  HastParent,
+  HastProperties,
+  HastRoot,
+} from "./hast";
+
+const voidElements = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+];
+// Elements where the content is text and not html, entities are only decoded
+// in the escapable ones.
+const rawTextElements = ["script", "style"];
+const escapableRawTextElements = ["textarea", "title"];
+
+const namedEntities: { [name: string]: string } = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  copy: "©",
+  reg: "®",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+const tokenPattern =
+  /<!--([\s\S]*?)-->|<!([^>]*)>|<\/([a-zA-Z][^\s/>]*)\s*>|<([a-zA-Z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const attributePattern =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * decodeEntities turns character references like `&amp;` and `&#231;` into
+ * the characters they stand for. Only common named references are known, any
+ * others are left as is and written back as they are by toHTML, which makes
+ * an escaped reference like `&amp;euro;` come back as `&euro;`. Numeric
+ * references to null, surrogates or past the last code point are replaced
+ * with U+FFFD like browsers do.
+ */
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (reference, name) => {
+    if (name[0] === "#") {
+      const code =
+        name[1] === "x" || name[1] === "X"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      const isInvalid =
+        code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff);
+      return isInvalid ? "\ufffd" : String.fromCodePoint(code);
+    }
+    return isKnownEntity(name) ? namedEntities[name] : reference;
+  });
+
+const isKnownEntity = (name: string) =>
+  Object.prototype.hasOwnProperty.call(namedEntities, name);
+
+// Escapes every & except the ones that start a named reference decodeEntities
+// left in the text, so those are kept as references.
+const escapeAmpersands = (text: string) =>
+  text.replace(/&([a-z]+\d*;)?/gi, (match, reference?: string) =>
+    reference && !isKnownEntity(reference.slice(0, -1))
+      ? match
+      : `&amp;${reference ?? ""}`
+  );
+
+const escapeText = (text: string) =>
+  escapeAmpersands(text).replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const escapeAttribute = (text: string) =>
+  escapeAmpersands(text).replace(/"/g, "&quot;");
+
+// Attribute names are stored the way hast stores them, `class` is `className`
+// and `data-*` and `aria-*` attributes are camel cased.
+export const toPropertyName = (attribute: string) => {
+  if (attribute === "class") {
+    return "className";
+  }
+  if (attribute === "for") {
+    return "htmlFor";
+  }
+  return /^(data|aria)-/.test(attribute)
+    ? attribute.replace(/-([a-z])/g, (_, char) => char.toUpperCase())
+    : attribute;
+};
+
+const toAttributeName = (property: string) => {
+  if (property === "className") {
+    return "class";
+  }
+  if (property === "htmlFor") {
+    return "for";
+  }
+  return /^(data|aria)[A-Z]/.test(property)
+    ? property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+    : property.toLowerCase();
+};
+
+const parseAttributes = (source: string) => {
+  const properties: HastProperties = {};
+  let match = attributePattern.exec(source);
+  while (match) {
+    const [, attribute, ...values] = match;
+    const value = values.find((x) => x !== undefined);
+    const name = toPropertyName(attribute.toLowerCase());
+    if (name === "className") {
+      properties[name] = decodeEntities(value ?? "").split(/\s+/).filter((x) => x);
+    } else {
+      properties[name] = value === undefined ? true : decodeEntities(value);
+    }
+    match = attributePattern.exec(source);
+  }
+  attributePattern.lastIndex = 0;
+  return properties;
+};
+
+/**
+ * parseHTML turns an HTML string into a hast tree. This is a small parser that
+ * keeps all of the whitespace in the text, it does not fix up markup the way a
+ * browser would (like closing a `<p>` when a block element starts).
+ */
+export const parseHTML = (html: string): HastRoot => {
+  const root: HastRoot = { type: "root", children: [] };
+  const stack: HastParent[] = [root];
+  const current = () => stack[stack.length - 1];
+  const addText = (value: string) => {
+    if (value.length) {
+      current().children.push({ type: "text", value });
+    }
+  };
+  let cursor = 0;
+  tokenPattern.lastIndex = 0;
+  let match = tokenPattern.exec(html);
+
+  while (match) {
+    const [token, comment, declaration, closingTag, openingTag, attributes] =
+      match;
+    addText(decodeEntities(html.slice(cursor, match.index)));
+    cursor = match.index + token.length;
+
+    if (comment !== undefined) {
+      current().children.push({ type: "comment", value: comment });
+    } else if (declaration !== undefined) {
+      current().children.push(
+        /^doctype/i.test(declaration)
+          ? { type: "doctype" }
+          : { type: "comment", value: declaration }
+      );
+    } else if (closingTag !== undefined) {
+      const tagName = closingTag.toLowerCase();
+      const index = stack
+        .map((node) => (node.type === "element" ? node.tagName : null))
+        .lastIndexOf(tagName);
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else {
+      const tagName = openingTag.toLowerCase();
+      const element: HastElement = {
+        type: "element",
+        tagName,
+        properties: parseAttributes(attributes.replace(/\/\s*$/, "")),
+        children: [],
+      };
+      current().children.push(element);
+      const isRawText = rawTextElements.includes(tagName);
+      if (isRawText || escapableRawTextElements.includes(tagName)) {
+        const end = html.toLowerCase().indexOf(`</${tagName}`, cursor);
+        const content = html.slice(cursor, end === -1 ? html.length : end);
+        if (content.length) {
+          element.children.push({
+            type: "text",
+            value: isRawText ? content : decodeEntities(content),
+          });
+        }
+        const close = end === -1 ? -1 : html.indexOf(">", end);
+        cursor = close === -1 ? html.length : close + 1;
+        tokenPattern.lastIndex = cursor;
+      } else if (
+        !voidElements.includes(tagName) &&
+        !/\/\s*$/.test(attributes)
+      ) {
+        stack.push(element);
+      }
+    }
+    match = tokenPattern.exec(html);
+  }
+  addText(decodeEntities(html.slice(cursor)));
+  return root;
+};
+
+const serializeProperties = (properties: HastProperties = {}) =>
+  Object.keys(properties)
+    .map((name) => {
+      const value = properties[name];
+      if (value === false || value === null || value === undefined) {
+        return "";
+      }
+      const attribute = toAttributeName(name);
+      if (value === true) {
+        return ` ${attribute}`;
+      }
+      const text = Array.isArray(value) ? value.join(" ") : `${value}`;
+      return ` ${attribute}="${escapeAttribute(text)}"`;
+    })
+    .join("");
+
+/**
+ * toHTML turns hast nodes back into an HTML string. It works through the tree
+ * with a stack, so deeply nested trees do not overflow the call stack.
+ */
+export const toHTML = (
+  nodes: HastNode | HastNode[],
+  parent?: HastElement
+): string => {
+  const html: string[] = [];
+  // Closing tags are queued as strings behind the children of their element.
+  const stack: [HastNode | string, HastElement | undefined][] = [];
+  const pushNodes = (children: HastNode[], parent?: HastElement) => {
+    for (let index = children.length - 1; index >= 0; index--) {
+      stack.push([children[index], parent]);
+    }
+  };
+  pushNodes(Array.isArray(nodes) ? nodes : [nodes], parent);
+  while (stack.length) {
+    const [node, parent] = stack.pop()!;
+    if (typeof node === "string") {
+      html.push(node);
+      continue;
+    }
+    switch (node.type) {
+      case "root":
+        pushNodes(node.children);
+        break;
+      case "text":
+        html.push(
+          parent && rawTextElements.includes(parent.tagName)
+            ? node.value
+            : escapeText(node.value)
+        );
+        break;
+      case "comment":
+        html.push(`<!--${node.value}-->`);
+        break;
+      case "doctype":
+        html.push("<!doctype html>");
+        break;
+      case "element":
+        html.push(`<${node.tagName}${serializeProperties(node.properties)}>`);
+        if (!voidElements.includes(node.tagName)) {
+          stack.push([`</${node.tagName}>`, undefined]);
+          pushNodes(node.children, node);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+  return html.join("");
+};
@@ -1,4 +1,4 @@
-import { Aracari } from ".";
+import { Aracari, AracariError, diffMappings } from ".";
 
 // Taken from https://en.wikipedia.org/wiki/Aracari
 const html = `<p>An <b>aracari</b> or <b>araçari</b> (<span class="rt-commentedText nowrap"><small><a href="/wiki/American_English" title="American English">US</a>: </small><span class="IPA nopopups noexcerpt"><a href="/wiki/Help:IPA/English" title="Help:IPA/English">/<span style="border-bottom:1px dotted"><span title="/ˌ/: secondary stress follows">ˌ</span><span title="/ɑːr/: 'ar' in 'far'">ɑːr</span><span title="/ə/: 'a' in 'about'">ə</span><span title="/ˈ/: primary stress follows">ˈ</span><span title="'s' in 'sigh'">s</span><span title="/ɑːr/: 'ar' in 'far'">ɑːr</span><span title="/i/: 'y' in 'happy'">i</span></span>/</a></span></span> <a href="/wiki/Help:Pronunciation_respelling_key" title="Help:Pronunciation respelling key"><i title="English pronunciation respelling"><span style="font-size:90%">AR</span>-ə-<span style="font-size:90%">SAR</span>-ee</i></a>,<sup id="cite_ref-1" class="reference"><a href="#cite_note-1">[1]</a></sup> <span class="rt-commentedText nowrap"><small><a href="/wiki/British_English" title="British English">UK</a>: </small><span class="IPA nopopups noexcerpt"><a href="/wiki/Help:IPA/English" title="Help:IPA/English">/<span style="border-bottom:1px dotted"><span title="/ˌ/: secondary stress follows">ˌ</span><span title="/ær/: 'arr' in 'marry'">ær</span><span title="/ə/: 'a' in 'about'">ə</span><span title="/ˈ/: primary stress follows">ˈ</span><span title="'s' in 'sigh'">s</span><span title="/ɑːr/: 'ar' in 'far'">ɑːr</span><span title="/i/: 'y' in 'happy'">i</span></span>/</a></span></span> <a href="/wiki/Help:Pronunciation_respelling_key" title="Help:Pronunciation respelling key"><i title="English pronunciation respelling"><span style="font-size:90%">ARR</span>-ə-<span style="font-size:90%">SAR</span>-ee</i></a>, <span class="rt-commentedText nowrap"><span class="IPA nopopups noexcerpt"><a href="/wiki/Help:IPA/English" title="Help:IPA/English">/-<span style="border-bottom:1px dotted"><span title="/ˈ/: primary stress follows">ˈ</span><span title="'k' in 'kind'">k</span><span title="/ɑːr/: 'ar' in 'far'">ɑːr</span><span title="/i/: 'y' in 'happy'">i</span></span>/</a></span></span> <a href="/wiki/Help:Pronunciation_respelling_key" title="Help:Pronunciation respelling key"><i title="English pronunciation respelling">-⁠<span style="font-size:90%">KAR</span>-ee</i></a>)<sup id="cite_ref-2" class="reference"><a href="#cite_note-2">[2]</a></sup> is any of the medium-sized <a href="/wiki/Toucan" title="Toucan">toucans</a> that, together with the <a href="/wiki/Saffron_toucanet" title="Saffron toucanet">saffron toucanet</a>, make up the genus <i><b>Pteroglossus</b></i>.</p>`;
@@ -222,4 +222,1134 @@ describe("Aracari", () => {
     
     expect(aracari.getText()).toBe(originalText);
   });
+
+  test("replaceText when passed an option of acrossNodes should replace text that spans multiple text nodes", () => {
+    const paragraph = aracari.getNodeByAddress("0")!;
+    const replacementNode = document.createElement("strong");
+    replacementNode.textContent = "Un arasari";
+
+    aracari
+      .replaceText("An aracari", replacementNode, { acrossNodes: true })
+      .remap();
+    expect(aracari.getText()).toMatch(/^Un arasari or araçari \(US/);
+    expect(paragraph.firstChild).toBe(replacementNode);
+    // The element that held the end of the match is kept in place
+    expect(paragraph.childNodes[1].nodeName).toBe("B");
+    expect(paragraph.childNodes[1].textContent).toBe("");
+  });
+  test("replaceText when passed an option of acrossNodes should keep the text around the match in each node", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>Keel-billed <i>toucan and</i> <b>aracari</b> birds</p>";
+    aracari = new Aracari(element);
+    aracari
+      .replaceText("and aracari birds", document.createTextNode("with friends"), {
+        acrossNodes: true,
+      })
+      .remap();
+    expect(aracari.getText()).toBe("Keel-billed toucan with friends");
+    expect(element.innerHTML).toBe(
+      "<p>Keel-billed <i>toucan with friends</i><b></b></p>"
+    );
+  });
+  test("replaceText when passed an option of acrossNodes should use replacementIndex across the whole text", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo <b>bar</b> and foo <i>bar</i></p>";
+    aracari = new Aracari(element);
+    aracari
+      .replaceText("foo bar", document.createTextNode("baz"), {
+        acrossNodes: true,
+        replacementIndex: 1,
+      })
+      .remap();
+    expect(aracari.getText()).toBe("foo bar and baz");
+  });
+
+  test("getSegmentsForRange should map a range of the text to the text nodes it covers", () => {
+    const start = aracari.getText().indexOf("An aracari or");
+    expect(aracari.getSegmentsForRange(start, start + 13)).toEqual([
+      { address: "0.0", startOffset: 0, endOffset: 3 },
+      { address: "0.1.0", startOffset: 0, endOffset: 7 },
+      { address: "0.2", startOffset: 0, endOffset: 3 },
+    ]);
+    const toucans = aracari.getText().indexOf("toucans");
+    expect(aracari.getSegmentsForRange(toucans + 1, toucans + 4)).toEqual([
+      { address: "0.21.0", startOffset: 1, endOffset: 4 },
+    ]);
+    expect(aracari.getSegmentsForRange(4, 4)).toEqual([]);
+  });
+  test("getPositionForOffset should find the text node and offset for an index in the text", () => {
+    const text = aracari.getText();
+    expect(aracari.getPositionForOffset(text.indexOf("toucans") + 2)).toEqual({
+      address: "0.21.0",
+      offset: 2,
+    });
+    expect(aracari.getPositionForOffset(3)).toEqual({
+      address: "0.1.0",
+      offset: 0,
+    });
+    expect(aracari.getPositionForOffset(text.length)).toEqual({
+      address: "0.26",
+      offset: 1,
+    });
+    expect(aracari.getPositionForOffset(text.length + 1)).toBeNull();
+  });
+  test("getOffsetForPosition should return the index in the text for a node and offset", () => {
+    const text = aracari.getText();
+    const node = aracari.getTextNode("toucans")!;
+    expect(aracari.getOffsetForPosition(node, 2)).toBe(
+      text.indexOf("toucans") + 2
+    );
+    expect(aracari.getOffsetForPosition("0.1.0")).toBe(3);
+    expect(aracari.getOffsetForPosition("0.1.0", 8)).toBeNull();
+    expect(aracari.getOffsetForPosition(document.createTextNode("foo"))).toBeNull();
+  });
+
+  test("wrapText should wrap every match with an element from the factory", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar and foo baz</p>";
+    aracari = new Aracari(element);
+    const handles = aracari.wrapText("foo", ({ index }) => {
+      const mark = document.createElement("mark");
+      mark.dataset.id = `${index}`;
+      return mark;
+    });
+    expect(handles.length).toBe(2);
+    expect(handles[1].text).toBe("foo");
+    expect(element.innerHTML).toBe(
+      '<p><mark data-id="0">foo</mark> bar and <mark data-id="1">foo</mark> baz</p>'
+    );
+    expect(aracari.getText()).toBe("foo bar and foo baz");
+  });
+  test("wrapText when passed an index should only wrap that match", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar and foo baz</p>";
+    aracari = new Aracari(element);
+    const [handle] = aracari.wrapText(
+      "foo",
+      () => document.createElement("mark"),
+      { index: 1 }
+    );
+    expect(handle.wrappers.length).toBe(1);
+    expect(element.innerHTML).toBe("<p>foo bar and <mark>foo</mark> baz</p>");
+  });
+  test("wrapText should wrap each text node of a match that spans multiple nodes", () => {
+    const handles = aracari.wrapText("An aracari", () =>
+      document.createElement("mark")
+    );
+    expect(handles[0].wrappers.map((wrapper) => wrapper.textContent)).toEqual([
+      "An ",
+      "aracari",
+    ]);
+    expect(handles[0].wrappers[1].parentNode!.nodeName).toBe("B");
+    expect(aracari.getAddressForText("An ")).toBe("0.0.0");
+  });
+  test("unwrap should put back the original text and join it with the text around it", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar and <b>foo</b> baz</p>";
+    aracari = new Aracari(element);
+    const handles = aracari.wrapText("bar and foo", () =>
+      document.createElement("mark")
+    );
+    expect(element.innerHTML).toBe(
+      "<p>foo <mark>bar and </mark><b><mark>foo</mark></b> baz</p>"
+    );
+    handles[0].unwrap();
+    expect(element.innerHTML).toBe("<p>foo bar and <b>foo</b> baz</p>");
+    expect(element.firstChild!.childNodes.length).toBe(3);
+    expect(aracari.getAddressForText("foo bar and")).toBe("0.0");
+  });
+
+  test("unwrap should keep the wrappers inside of a wrapper", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>An aracari bird here</p>";
+    aracari = new Aracari(element);
+    const [outer] = aracari.wrapText("aracari bird", () =>
+      document.createElement("mark")
+    );
+    const [inner] = aracari.wrapText("bird", () => {
+      const mark = document.createElement("mark");
+      mark.className = "inner";
+      return mark;
+    });
+    aracari.unwrap(outer);
+    expect(element.innerHTML).toBe(
+      '<p>An aracari <mark class="inner">bird</mark> here</p>'
+    );
+    aracari.undo();
+    expect(element.innerHTML).toBe(
+      '<p>An <mark>aracari <mark class="inner">bird</mark></mark> here</p>'
+    );
+    aracari.redo();
+    aracari.unwrap(inner);
+    expect(element.innerHTML).toBe("<p>An aracari bird here</p>");
+    expect(element.firstChild!.childNodes.length).toBe(1);
+  });
+
+  test("undo should revert a replacement and redo should apply it again", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo <b>bar</b> baz</p>";
+    aracari = new Aracari(element);
+    const original = aracari.getTextNode("baz")!;
+    aracari.replaceText("baz", document.createTextNode("qux")).remap();
+    expect(aracari.getText()).toBe("foo bar qux");
+    expect(aracari.history.undoStack[0][0]).toMatchObject({
+      type: "replace",
+      address: "0.2",
+      original: [original],
+    });
+
+    aracari.undo();
+    expect(aracari.getText()).toBe("foo bar baz");
+    expect(aracari.getTextNode("baz")).toBe(original);
+    expect(aracari.history.canRedo()).toBe(true);
+
+    aracari.redo();
+    expect(aracari.getText()).toBe("foo bar qux");
+    expect(aracari.history.canRedo()).toBe(false);
+  });
+  test("history should only keep the last historyLimit changes and clear should forget them", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>a b c</p>";
+    aracari = new Aracari(element, { historyLimit: 2 });
+    ["a", "b", "c"].forEach((text) =>
+      aracari.replaceText(text, text.toUpperCase()).remap()
+    );
+    expect(aracari.history.undoStack).toHaveLength(2);
+    aracari.undo().undo();
+    expect(aracari.getText()).toBe("A b c");
+    expect(aracari.history.canUndo()).toBe(false);
+
+    aracari.history.clear();
+    expect(aracari.history.canRedo()).toBe(false);
+    aracari.redo();
+    expect(aracari.getText()).toBe("A b c");
+  });
+  test("undo should revert changes that span multiple text nodes as a single change", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo <b>bar</b> baz</p>";
+    aracari = new Aracari(element);
+    aracari.wrapText("foo bar", () => document.createElement("mark"));
+    aracari
+      .replaceText("bar baz", document.createTextNode("qux"), {
+        acrossNodes: true,
+      })
+      .remap();
+    expect(element.innerHTML).toBe(
+      "<p><mark>foo </mark><b><mark>qux</mark></b></p>"
+    );
+
+    aracari.undo();
+    expect(element.innerHTML).toBe(
+      "<p><mark>foo </mark><b><mark>bar</mark></b> baz</p>"
+    );
+    aracari.undo();
+    expect(element.innerHTML).toBe("<p>foo <b>bar</b> baz</p>");
+    expect(aracari.history.canUndo()).toBe(false);
+  });
+  test("undo should revert an unwrap back to the wrapped text", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar baz</p>";
+    aracari = new Aracari(element);
+    const [handle] = aracari.wrapText("bar", () =>
+      document.createElement("mark")
+    );
+    handle.unwrap();
+    expect(element.innerHTML).toBe("<p>foo bar baz</p>");
+    aracari.undo();
+    expect(element.innerHTML).toBe("<p>foo <mark>bar</mark> baz</p>");
+    expect(handle.wrappers[0].parentNode).toBe(element.firstChild);
+  });
+  test("insertNodes should insert nodes at an index in the text", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar</p>";
+    aracari = new Aracari(element);
+    aracari.insertNodes(4, document.createElement("br")).remap();
+    expect(element.innerHTML).toBe("<p>foo <br>bar</p>");
+    aracari.undo();
+    expect(element.innerHTML).toBe("<p>foo bar</p>");
+    expect(() => aracari.insertNodes(10, [])).toThrowError(/outside/);
+  });
+  test("transaction should undo all of its changes together", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar baz</p>";
+    aracari = new Aracari(element);
+    aracari.transaction(() => {
+      aracari
+        .replaceText("foo", document.createTextNode("uno"))
+        .remap()
+        .replaceText("baz", document.createTextNode("tres"))
+        .remap();
+    });
+    expect(aracari.getText()).toBe("uno bar tres");
+    expect(aracari.history.undoStack.length).toBe(1);
+    aracari.undo();
+    expect(aracari.getText()).toBe("foo bar baz");
+  });
+  test("transaction should roll back its changes when it throws", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar baz</p>";
+    aracari = new Aracari(element);
+    expect(() => {
+      aracari.transaction(() => {
+        aracari
+          .replaceText("foo", document.createTextNode("uno"))
+          .remap()
+          .replaceText("qux", document.createTextNode("dos"));
+      });
+    }).toThrowError(/not found/);
+    expect(element.innerHTML).toBe("<p>foo bar baz</p>");
+    expect(aracari.getText()).toBe("foo bar baz");
+    expect(aracari.history.canUndo()).toBe(false);
+  });
+
+  test("observe should patch the mapping when nodes are added or removed", async () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo <b>bar</b> baz</p><p>qux</p>";
+    aracari = new Aracari(element).observe();
+    const paragraph = element.firstChild!;
+    paragraph.insertBefore(document.createTextNode("new "), paragraph.firstChild);
+    element.lastChild!.appendChild(document.createElement("i")).textContent =
+      " end";
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("new foo bar bazqux end");
+    expect(aracari.mapping).toEqual([
+      ["new ", "0.0"],
+      ["foo ", "0.1"],
+      ["bar", "0.2.0"],
+      [" baz", "0.3"],
+      ["qux", "1.0"],
+      [" end", "1.1.0"],
+    ]);
+    aracari.disconnect();
+  });
+  test("observe should leave out text added to or shown by excluded elements", async () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>Hi</p><style>.x{}</style>";
+    aracari = new Aracari(element).observe();
+    element.lastChild!.appendChild(document.createTextNode(".y{}"));
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("Hi");
+    const paragraph = element.firstChild as HTMLElement;
+    paragraph.hidden = true;
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("");
+    paragraph.hidden = false;
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("Hi");
+    aracari.disconnect();
+
+    element.innerHTML = "<p>Hi</p><span class='nt'>a</span>";
+    aracari = new Aracari(element, {
+      exclude: (node) => (node as Element).classList.contains("nt"),
+    }).observe();
+    element.lastChild!.appendChild(document.createTextNode("b"));
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("Hi");
+    (element.lastChild as Element).className = "";
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("Hiab");
+    aracari.disconnect();
+  });
+  test("observe should only watch the attributes the exclude selector uses", async () => {
+    const observe = jest.spyOn(MutationObserver.prototype, "observe");
+    const element = document.createElement("div");
+    element.innerHTML = "<p>Hi</p><span>a</span>";
+    aracari = new Aracari(element, {
+      exclude: ".nt, [data-skip]",
+    }).observe();
+    expect(observe.mock.calls[0][1]).toMatchObject({
+      attributeFilter: ["data-skip", "class"],
+    });
+    (element.lastChild as Element).className = "nt";
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("Hi");
+    aracari.disconnect();
+
+    observe.mockClear();
+    aracari = new Aracari(element, { exclude: "" }).observe();
+    expect(observe.mock.calls[0][1]).not.toHaveProperty("attributes");
+    expect(observe.mock.calls[0][1]).not.toHaveProperty("attributeFilter");
+    aracari.disconnect();
+    observe.mockRestore();
+  });
+  test("observe should update the text of changed text nodes", async () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo <b>bar</b> baz</p>";
+    aracari = new Aracari(element).observe();
+    aracari.getTextNode("bar")!.textContent = "qux";
+    await Promise.resolve();
+    expect(aracari.getText()).toBe("foo qux baz");
+    expect(aracari.getAddressForText("qux")).toBe("0.1.0");
+    aracari.disconnect();
+  });
+  test("observe should keep the mapping up to date after replacements without a remap", async () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar</p><p>foo baz</p>";
+    aracari = new Aracari(element).observe();
+    aracari.replaceText("foo", document.createElement("br"));
+    await Promise.resolve();
+    expect(aracari.getAddressForText("bar")).toBe("0.1");
+    aracari.replaceText("foo", document.createTextNode("qux"));
+    await Promise.resolve();
+    expect(aracari.getText()).toBe(" barqux baz");
+    aracari.disconnect();
+  });
+  test("subscribe should call listeners when the observed text changes", async () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar</p>";
+    aracari = new Aracari(element).observe();
+    const listener = jest.fn();
+    const unsubscribe = aracari.subscribe(listener);
+
+    element.firstChild!.appendChild(document.createElement("span"));
+    await Promise.resolve();
+    expect(listener).not.toHaveBeenCalled();
+
+    element.firstChild!.appendChild(document.createTextNode(" baz"));
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledWith("foo bar baz");
+
+    unsubscribe();
+    element.firstChild!.appendChild(document.createTextNode("!"));
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledTimes(1);
+    aracari.disconnect();
+  });
+
+  test("search should find matches of a RegExp with their capture groups", () => {
+    const matches = aracari.search(/\[(\d+)\]/);
+    expect(matches.map(({ text, captures }) => [text, captures])).toEqual([
+      ["[1]", ["1"]],
+      ["[2]", ["2"]],
+    ]);
+    const text = aracari.getText();
+    expect(matches[0]).toMatchObject({
+      address: "0.9.0.0",
+      startOffset: 0,
+      endOffset: 3,
+      start: text.indexOf("[1]"),
+      end: text.indexOf("[1]") + 3,
+    });
+  });
+  test("search should find every term of a list in one pass preferring longer terms", () => {
+    const matches = aracari.search(["toucan", "toucanet", "genus"]);
+    expect(matches.map(({ text, address }) => [text, address])).toEqual([
+      ["toucan", "0.21.0"],
+      ["toucanet", "0.23.0"],
+      ["genus", "0.24"],
+    ]);
+  });
+  test("search should return the value of the matched term when passed a dictionary", () => {
+    const matches = aracari.search(
+      { Toucans: "tucanes", genus: "género" },
+      { caseSensitive: false }
+    );
+    expect(matches.map(({ text, value }) => [text, value])).toEqual([
+      ["toucans", "tucanes"],
+      ["genus", "género"],
+    ]);
+  });
+  test("search when passed an option of acrossNodes should find matches that span multiple text nodes", () => {
+    const [match] = aracari.search(/An (\w+) or/, { acrossNodes: true });
+    expect(match.text).toBe("An aracari or");
+    expect(match.captures).toEqual(["aracari"]);
+    expect(match).toMatchObject({ address: "0.0", startOffset: 0, endOffset: 3 });
+    expect(match.segments.map(({ address }) => address)).toEqual([
+      "0.0",
+      "0.1.0",
+      "0.2",
+    ]);
+  });
+  test("replaceText should accept a RegExp or a list of terms", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>Call 555-1234 or <b>555-9876</b></p>";
+    aracari = new Aracari(element);
+    aracari
+      .replaceText(/\d{3}-\d{4}/, document.createTextNode("[phone]"), {
+        replacementIndex: 0,
+      })
+      .remap()
+      .replaceText(["9876", "555-9876"], document.createTextNode("[phone]"))
+      .remap();
+    expect(aracari.getText()).toBe("Call [phone] or [phone]");
+  });
+
+  test("createAnchor should describe a range by its text, position and path", () => {
+    const [match] = aracari.search("toucans");
+    const anchor = aracari.createAnchor(match, 10);
+    expect(anchor).toEqual({
+      quote: { exact: "toucans", prefix: "ium-sized ", suffix: " that, tog" },
+      position: { start: match.start, end: match.end },
+      path: {
+        address: "0.21.0",
+        startOffset: 0,
+        endAddress: "0.21.0",
+        endOffset: 7,
+      },
+    });
+    expect(JSON.parse(JSON.stringify(anchor))).toEqual(anchor);
+    expect(() => aracari.createAnchor({ start: 1000, end: 1001 })).toThrow();
+  });
+  test("resolveAnchor should find the text of an anchor after the document has changed", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>the toucan and the <b>aracari</b> toucan</p>";
+    aracari = new Aracari(element);
+    const [, second] = aracari.search("toucan");
+    const anchor = aracari.createAnchor(second);
+
+    element.innerHTML =
+      "<p>New intro. <i>The</i> toucan and the <b>aracari</b> <i>toucan</i></p>";
+    aracari.remap();
+    const range = aracari.resolveAnchor(anchor)!;
+    expect(range.start).toBe(aracari.getText().lastIndexOf("toucan"));
+    expect(range.segments).toEqual([
+      { address: "0.5.0", startOffset: 0, endOffset: 6 },
+    ]);
+  });
+  test("resolveAnchor should return null when the text of the anchor is gone", () => {
+    const anchor = aracari.createAnchor(aracari.search("toucans")[0]);
+    aracari.replaceText("toucans", document.createTextNode("birds")).remap();
+    expect(aracari.resolveAnchor(anchor)).toBeNull();
+  });
+
+  test("getText when passed a blockSeparator and lineBreak should separate blocks and lines", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>One</p><p>Two<br>lines</p><ul><li>Three</li></ul>";
+    aracari = new Aracari(element, { blockSeparator: "\n\n", lineBreak: "\n" });
+    expect(aracari.getText()).toBe("One\n\nTwo\nlines\n\nThree");
+    expect(aracari.mapping).toEqual([
+      ["One", "0.0"],
+      ["\n\n", "0::after"],
+      ["Two", "1.0"],
+      ["\n", "1.1::after"],
+      ["lines", "1.2"],
+      ["\n\n", "1::after"],
+      ["Three", "2.0.0"],
+    ]);
+    expect(aracari.getNodeByAddress("1.1::after")!.nodeName).toBe("BR");
+    expect(aracari.getPositionForOffset(4)).toEqual({ address: "1.0", offset: 0 });
+    expect(aracari.search("One Two", { acrossNodes: true })).toEqual([]);
+    expect(aracari.search(/One\s+Two/, { acrossNodes: true })[0].segments).toEqual([
+      { address: "0.0", startOffset: 0, endOffset: 3 },
+      { address: "1.0", startOffset: 0, endOffset: 3 },
+    ]);
+  });
+  test("getText when passed collapseWhitespace should collapse whitespace the way it is rendered", () => {
+    const element = document.createElement("div");
+    element.innerHTML =
+      "<div>\n  <p>  Hello   <b> world </b> </p>\n  <pre>a  b</pre>\n</div>";
+    aracari = new Aracari(element, {
+      blockSeparator: "\n",
+      collapseWhitespace: true,
+    });
+    expect(aracari.getText()).toBe("Hello world\na  b");
+    // Offsets still point into the text nodes
+    const [match] = aracari.search("world");
+    expect(match).toMatchObject({
+      address: "0.1.1.0",
+      startOffset: 1,
+      endOffset: 6,
+      start: 6,
+    });
+    expect(aracari.getOffsetForPosition("0.1.0", 2)).toBe(0);
+    expect(aracari.getOffsetForPosition("0.1.1.0", 1)).toBe(6);
+
+    aracari.wrapText("Hello world", () => document.createElement("mark"));
+    expect(element.querySelector("p")!.innerHTML).toBe(
+      "  <mark>Hello </mark>  <b> <mark>world</mark> </b> "
+    );
+    expect(aracari.getText()).toBe("Hello world\na  b");
+  });
+  test("getText should leave out scripts, styles, hidden and excluded elements", () => {
+    const element = document.createElement("div");
+    element.innerHTML =
+      '<p>Keep <script>var x;</script><style>p {}</style><span hidden>hidden</span><span class="no-translate">skip</span><span contenteditable="false">widget</span>this</p>';
+    aracari = new Aracari(element);
+    expect(aracari.getText()).toBe("Keep skipwidgetthis");
+    aracari = new Aracari(element, {
+      exclude: '.no-translate, [contenteditable="false"]',
+    });
+    expect(aracari.getText()).toBe("Keep var x;p {}hiddenthis");
+    aracari = new Aracari(element, {
+      exclude: (node) => (node as Element).tagName === "SPAN",
+    });
+    expect(aracari.getText()).toBe("Keep var x;p {}this");
+    expect(aracari.getAddressForText("this")).toBe("0.6");
+  });
+  test("getAddressForText should only ignore case when caseSensitive is false", () => {
+    expect(aracari.getAddressForText("TOUCANS")).toBe(null);
+    expect(aracari.getAddressForText("TOUCANS", false)).toBe("0.21.0");
+    expect(aracari.isInSingleNode("Toucans")).toBe(false);
+  });
+  test("replaceText when passed caseSensitive false should replace text in any case", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>The toucan and THE aracari</p>";
+    aracari = new Aracari(element);
+    aracari
+      .replaceText("the", document.createTextNode("a"), {
+        caseSensitive: false,
+        replacementIndex: 1,
+      })
+      .remap();
+    expect(aracari.getText()).toBe("The toucan and a aracari");
+  });
+  test("preserveWord should find words in any script", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>araçari, çari and Привет мир, приветствие (foo foo)</p>";
+    aracari = new Aracari(element);
+    expect(aracari.getAddressesForText("çari", true, true)).toEqual(["0.0"]);
+    expect(
+      aracari.search("çari", { preserveWord: true }).map(({ start }) => start)
+    ).toEqual([9]);
+    expect(
+      aracari
+        .search("привет", { preserveWord: true, caseSensitive: false })
+        .map(({ text }) => text)
+    ).toEqual(["Привет"]);
+    expect(aracari.search("foo", { preserveWord: true })).toHaveLength(2);
+    expect(
+      aracari.search(/ar\S+/, { preserveWord: true }).map(({ text }) => text)
+    ).toEqual(["araçari,"]);
+  });
+  test("preserveWord should find a word inside of a match that starts in a word", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>xa-b a-b</p>";
+    aracari = new Aracari(element);
+    expect(
+      aracari
+        .search(["a-b", "b"], { preserveWord: true })
+        .map(({ text, start }) => [text, start])
+    ).toEqual([
+      ["b", 3],
+      ["a-b", 5],
+    ]);
+    expect(
+      aracari.search(/a-b|b/u, { preserveWord: true }).map(({ start }) => start)
+    ).toEqual([3, 5]);
+  });
+  test("search when passed ignoreDiacritics should match letters with or without accents", () => {
+    expect(
+      aracari
+        .search("ARACARI", { ignoreDiacritics: true, caseSensitive: false })
+        .map(({ text, address }) => [text, address])
+    ).toEqual([
+      ["aracari", "0.1.0"],
+      ["araçari", "0.3.0"],
+    ]);
+    expect(
+      aracari.search({ "araçari": "arasari" }, { ignoreDiacritics: true })[0]
+        .value
+    ).toBe("arasari");
+
+    aracari
+      .replaceText("aracari", document.createTextNode("arasari"), {
+        ignoreDiacritics: true,
+        at: "0.3.0",
+      })
+      .remap();
+    expect(aracari.getText()).toMatch(/^An aracari or arasari \(US/);
+  });
+  test("replaceAll should replace every match in one call", () => {
+    const element = document.createElement("div");
+    element.innerHTML =
+      "<p>A toucan, <b>toucans</b> and a toucan <i>tou</i>can</p><p>The toucan</p>";
+    aracari = new Aracari(element, { blockSeparator: "\n" });
+    const contexts: string[] = [];
+    const report = aracari.replaceAll(
+      ["toucan", "toucans"],
+      (match, { index, node, prefix }) => {
+        contexts.push(`${index}:${node.textContent}:${prefix}`);
+        if (match.start === 24) {
+          return null;
+        }
+        if (match.text === "toucans") {
+          return document.createTextNode("tucanes");
+        }
+        const strong = document.createElement("strong");
+        strong.textContent = "tucán";
+        return [strong];
+      },
+      { acrossNodes: true }
+    );
+    expect(aracari.getText()).toBe(
+      "A tucán, tucanes and a toucan tucán\nThe tucán"
+    );
+    expect(element.innerHTML).toBe(
+      "<p>A <strong>tucán</strong>, <b>tucanes</b> and a toucan <i><strong>tucán</strong></i></p><p>The <strong>tucán</strong></p>"
+    );
+    expect(contexts[0]).toBe("0:A toucan, :A ");
+    expect(report.replacements.map(({ match }) => match.text)).toEqual([
+      "toucan",
+      "toucans",
+      "toucan",
+      "toucan",
+    ]);
+    expect(report.skipped.map(({ start }) => start)).toEqual([24]);
+
+    // The whole call is undone in one step
+    aracari.undo();
+    expect(aracari.getText()).toBe(
+      "A toucan, toucans and a toucan toucan\nThe toucan"
+    );
+  });
+  test("replaceAll when passed a string should replace the text", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>one two one</p>";
+    aracari = new Aracari(element);
+    aracari.replaceAll("one", (match, { index }) => `${index + 1}`);
+    expect(element.innerHTML).toBe("<p>1 two 2</p>");
+    aracari.replaceAll("two", () => "");
+    expect(aracari.getText()).toBe("1  2");
+  });
+  test("getText when passed shadowRoots should read open shadow roots and slots", () => {
+    const element = document.createElement("div");
+    element.innerHTML =
+      "<p>Before <span>light <b>slotted</b> text</span> after</p>";
+    const host = element.querySelector("span")!;
+    const shadowRoot = host.attachShadow({ mode: "open" });
+    shadowRoot.innerHTML = "<em>Shadow </em><slot></slot><i> end</i>";
+
+    aracari = new Aracari(element);
+    expect(aracari.getText()).toBe("Before light slotted text after");
+
+    aracari = new Aracari(element, { shadowRoots: true });
+    expect(aracari.getText()).toBe(
+      "Before Shadow light slotted text end after"
+    );
+    expect(aracari.getAddressForText("Shadow ")).toBe("0.1.shadow.0.0");
+    expect(aracari.getAddressForText("slotted")).toBe("0.1.1.0");
+    expect(aracari.getNodeByAddress("0.1.shadow.0.0")).toBe(
+      shadowRoot.firstChild!.firstChild
+    );
+    expect(aracari.getAddressForNode(shadowRoot.lastChild!.firstChild!)).toBe(
+      "0.1.shadow.2.0"
+    );
+
+    aracari.wrapText("Shadow light", () => document.createElement("mark"));
+    expect(shadowRoot.innerHTML).toBe(
+      "<em><mark>Shadow </mark></em><slot></slot><i> end</i>"
+    );
+    expect(host.innerHTML).toBe("<mark>light</mark> <b>slotted</b> text");
+
+    // Text after a slot keeps the address it has in the shadow root.
+    const other = document.createElement("div");
+    other.innerHTML = "<x-el><span>slotted</span></x-el>";
+    other.querySelector("x-el")!.attachShadow({ mode: "open" }).innerHTML =
+      "<p>Shadow <slot></slot> end</p>";
+    aracari = new Aracari(other, { shadowRoots: true });
+    expect(aracari.mapping).toEqual([
+      ["Shadow ", "0.shadow.0.0"],
+      ["slotted", "0.0.0"],
+      [" end", "0.shadow.0.2"],
+    ]);
+    expect(aracari.tryReplaceText("end", "start")).toEqual({ ok: true });
+  });
+  test("getText when passed frames should read the documents of frames", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>Page</p><iframe></iframe>";
+    document.body.appendChild(element);
+    const frameDocument = element.querySelector("iframe")!.contentDocument!;
+    frameDocument.body.innerHTML = "<p>Frame text</p>";
+
+    aracari = new Aracari(element, { frames: true, blockSeparator: "\n" });
+    expect(aracari.getText()).toBe("Page\nFrame text");
+    const [match] = aracari.search("Frame");
+    expect(match.address).toBe("1.frame.0.1.0.0");
+    expect(aracari.getNodeByAddress(match.address)).toBe(
+      frameDocument.querySelector("p")!.firstChild
+    );
+    aracari.replaceText("Frame", frameDocument.createTextNode("Inner"));
+    expect(frameDocument.body.innerHTML).toBe("<p>Inner text</p>");
+    element.remove();
+  });
+  test("toJSON and fromJSON should restore a mapping that can be attached to its root", () => {
+    const json = JSON.stringify(aracari);
+    const restored = Aracari.fromJSON(json);
+    expect(restored.getText()).toBe(aracari.getText());
+    expect(() => restored.getNodeByAddress("0.21.0")).toThrowError(/no root/);
+    expect(restored.tryReplaceText("toucans", "tucanes")).toMatchObject({
+      ok: false,
+      error: { code: "no-root", address: "0.21.0" },
+    });
+
+    const validation = restored.attach(aracari.root!);
+    expect(validation).toEqual({
+      valid: true,
+      fingerprintMatches: true,
+      staleAddresses: [],
+    });
+    expect(restored.getTextNode("toucans")).toBe(aracari.getTextNode("toucans"));
+  });
+  test("attach should report the addresses that no longer match the root", () => {
+    const data = aracari.toJSON();
+    expect(data.version).toBe(1);
+    aracari.getTextNode("toucans")!.textContent = "tucanes";
+    const genus = aracari.getTextNode("Pteroglossus")!;
+    genus.parentNode!.removeChild(genus);
+
+    const restored = Aracari.fromJSON(data);
+    expect(restored.attach(aracari.root!)).toEqual({
+      valid: false,
+      fingerprintMatches: false,
+      staleAddresses: ["0.21.0", "0.25.0.0"],
+    });
+    expect(restored.remap().validate().valid).toBe(true);
+  });
+  test("fromJSON should throw for mappings it can not read", () => {
+    const data = aracari.toJSON();
+    expect(() => Aracari.fromJSON({ ...data, version: 2 })).toThrowError(
+      /version 2 is not supported/
+    );
+    expect(() =>
+      Aracari.fromJSON({ ...data, mapping: [["changed", "0.0"]] })
+    ).toThrowError(/fingerprint/);
+    expect(() =>
+      Aracari.fromJSON({ ...data, mapping: [["no address"]] })
+    ).toThrowError(/entries/);
+  });
+  test("replaceText should throw errors with a code, the text and the address", () => {
+    const replacement = () => document.createTextNode("x");
+    const getError = (callback: () => void) => {
+      try {
+        callback();
+      } catch (e) {
+        return e;
+      }
+    };
+
+    const notFound = getError(() =>
+      aracari.replaceText("ornithology", replacement())
+    );
+    expect(notFound).toBeInstanceOf(AracariError);
+    expect(notFound).toMatchObject({ code: "not-found", text: "ornithology" });
+
+    expect(
+      getError(() => aracari.replaceText("An aracari", replacement()))
+    ).toMatchObject({ code: "spans-multiple-nodes", text: "An aracari" });
+
+    expect(
+      getError(() =>
+        aracari.replaceText("toucans", replacement(), { at: "0.99" })
+      )
+    ).toMatchObject({ code: "stale-address", address: "0.99" });
+
+    expect(
+      getError(() =>
+        aracari.replaceText("toucans", replacement(), { replacementIndex: 1 })
+      )
+    ).toMatchObject({
+      code: "index-out-of-range",
+      address: "0.21.0",
+      index: 1,
+    });
+
+    expect(
+      getError(() => aracari.insertNodes(1000, replacement()))
+    ).toMatchObject({ code: "index-out-of-range", index: 1000 });
+  });
+  test("replaceText should throw a stale-address error when the mapping is out of date", () => {
+    const node = aracari.getTextNode("toucans")!;
+    node.parentNode!.removeChild(node);
+    expect(() =>
+      aracari.replaceText("toucans", document.createTextNode("x"))
+    ).toThrowError(/remap/);
+  });
+  test("tryReplaceText should return the error in place of throwing it", () => {
+    expect(
+      aracari.tryReplaceText("ornithology", document.createTextNode("x"))
+    ).toMatchObject({ ok: false, error: { code: "not-found" } });
+
+    expect(
+      aracari.tryReplaceText("toucans", document.createTextNode("tucanes"))
+    ).toEqual({ ok: true });
+    expect(aracari.remap().getText()).toContain("medium-sized tucanes that");
+    expect(
+      aracari.tryInsertNodes(-1, document.createTextNode("x"))
+    ).toMatchObject({ ok: false, error: { code: "index-out-of-range" } });
+  });
+  test("getEntries should give typed entries with offsets and the element they are in", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>An <b>aracari</b></p><p>A  <a href='/toucan'>toucan</a></p>";
+    aracari = new Aracari(element, {
+      blockSeparator: "\n",
+      collapseWhitespace: true,
+    });
+    const entries = aracari.getEntries();
+    expect(entries.map(({ node, ...entry }) => entry)).toEqual([
+      {
+        text: "An ",
+        address: "0.0",
+        start: 0,
+        end: 3,
+        isTextNode: true,
+        source: "An ",
+        tagName: "p",
+      },
+      {
+        text: "aracari",
+        address: "0.1.0",
+        start: 3,
+        end: 10,
+        isTextNode: true,
+        source: "aracari",
+        tagName: "b",
+      },
+      {
+        text: "\n",
+        address: "0::after",
+        start: 10,
+        end: 11,
+        isTextNode: false,
+        source: "\n",
+        tagName: "p",
+      },
+      {
+        text: "A ",
+        address: "1.0",
+        start: 11,
+        end: 13,
+        isTextNode: true,
+        source: "A  ",
+        tagName: "p",
+      },
+      {
+        text: "toucan",
+        address: "1.1.0",
+        start: 13,
+        end: 19,
+        isTextNode: true,
+        source: "toucan",
+        tagName: "a",
+      },
+    ]);
+    expect(entries[1].node!.deref()).toBe(element.querySelector("b")!.firstChild);
+  });
+  test("getEntryAtOffset and getEntriesWithin should find entries", () => {
+    expect(aracari.getEntryAtOffset(0)!.address).toBe("0.0");
+    expect(aracari.getEntryAtOffset(3)).toMatchObject({
+      text: "aracari",
+      tagName: "b",
+    });
+    expect(aracari.getEntryAtOffset(10000)).toBe(null);
+    expect(
+      aracari.getEntriesWithin("sup.reference").map(({ text }) => text)
+    ).toEqual(["[1]", "[2]"]);
+    expect(
+      aracari.getEntriesWithin("a[title='Toucan'], i b").map(({ text }) => text)
+    ).toEqual(["toucans", "Pteroglossus"]);
+    expect(new Aracari(aracari.mapping).getEntries()[0]).toEqual({
+      text: "An ",
+      address: "0.0",
+      start: 0,
+      end: 3,
+      isTextNode: true,
+      source: "An ",
+      tagName: null,
+    });
+  });
+  test("replaceText when passed an occurrence should replace the nth match in the root", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar foo <b>foo</b> foo</p>";
+    aracari = new Aracari(element);
+    aracari.replaceText("foo", document.createTextNode("baz"), {
+      occurrence: 2,
+    });
+    expect(element.innerHTML).toBe("<p>foo bar foo <b>baz</b> foo</p>");
+    expect(() =>
+      aracari.remap().replaceText("foo", document.createTextNode("baz"), {
+        occurrence: 3,
+      })
+    ).toThrowError(/no match at index 3/);
+  });
+  test("replaceText when passed a prefix or suffix should replace the match with that text around it", () => {
+    const element = document.createElement("div");
+    element.innerHTML =
+      "<p>the red <b>toucan</b>, the green toucan and the toucan</p>";
+    aracari = new Aracari(element);
+    aracari
+      .replaceText("toucan", document.createTextNode("tucán"), {
+        prefix: "green ",
+      })
+      .remap()
+      .replaceText("toucan", document.createTextNode("tucán"), {
+        prefix: "THE ",
+        suffix: "",
+        caseSensitive: false,
+      })
+      .remap();
+    expect(aracari.getText()).toBe(
+      "the red toucan, the green tucán and the tucán"
+    );
+    expect(aracari.search("toucan", { suffix: "," })[0].address).toBe("0.1.0");
+  });
+  test("search when passed within or notWithin should filter matches by their ancestors", () => {
+    expect(
+      aracari
+        .search(/\[\d\]/, { within: "sup.reference" })
+        .map(({ text }) => text)
+    ).toEqual(["[1]", "[2]"]);
+    expect(
+      aracari.search(/\[\d\]/, { notWithin: "sup.reference" })
+    ).toEqual([]);
+
+    const element = document.createElement("div");
+    element.innerHTML =
+      '<p>Toucans, <a href="/toucan">toucans</a>, <code>toucans</code> and toucans<sup class="reference">toucans</sup></p>';
+    aracari = new Aracari(element);
+    aracari.wrapText(
+      "toucans",
+      () => {
+        const link = document.createElement("a");
+        link.href = "/toucan";
+        return link;
+      },
+      { caseSensitive: false, notWithin: "a, code, sup.reference" }
+    );
+    expect(element.innerHTML).toBe(
+      '<p><a href="/toucan">Toucans</a>, <a href="/toucan">toucans</a>, <code>toucans</code> and <a href="/toucan">toucans</a><sup class="reference">toucans</sup></p>'
+    );
+  });
+  test("diff should list the text that was inserted, deleted and modified", () => {
+    const element = document.createElement("div");
+    element.innerHTML =
+      "<p>foo bar</p><p>An <b>aracari</b> or araçari</p><p>The end</p>";
+    aracari = new Aracari(element);
+    const before = aracari.mapping;
+
+    element.querySelector("p")!.firstChild!.textContent = "foo new bar";
+    element.querySelector("b")!.remove();
+    element.lastChild!.firstChild!.textContent = "The start";
+    element.insertAdjacentHTML("beforeend", "<p>!</p>");
+
+    expect(aracari.diff(before)).toEqual([
+      {
+        type: "insert",
+        before: { text: "", start: 4, end: 4, addresses: [] },
+        after: { text: "new ", start: 4, end: 8, addresses: ["0.0"] },
+      },
+      {
+        type: "delete",
+        before: { text: "aracari", start: 10, end: 17, addresses: ["1.1.0"] },
+        after: { text: "", start: 14, end: 14, addresses: [] },
+      },
+      {
+        type: "modify",
+        before: { text: "end", start: 32, end: 35, addresses: ["2.0"] },
+        after: {
+          text: "start!",
+          start: 29,
+          end: 35,
+          addresses: ["2.0", "3.0"],
+        },
+      },
+    ]);
+    // The mapping is left as it was
+    expect(aracari.mapping).toBe(before);
+  });
+  test("diffMappings should ignore text nodes that were split or joined", () => {
+    const element = document.createElement("div");
+    element.innerHTML = "<p>foo bar baz</p>";
+    aracari = new Aracari(element);
+    const before = aracari.mapping;
+    aracari.wrapText("bar", () => document.createElement("mark"));
+    expect(aracari.diff(before, aracari.mapping)).toEqual([]);
+    expect(
+      diffMappings([["foo", "0"]], [["foo", "1"], ["bar", "2"]])
+    ).toMatchObject([
+      { type: "insert", after: { text: "bar", addresses: ["2"] } },
+    ]);
+  });
+  test("iterateText and remapInChunks should give the same entries as the mapping", async () => {
+    const element = document.createElement("div");
+    element.innerHTML = `<h1>Aracari </h1><p>  An <b>aracari</b>\n is a <i>toucan</i> </p>`;
+    const options = { blockSeparator: "\n", collapseWhitespace: true };
+    const mapping = new Aracari(element, options).mapping;
+    aracari = new Aracari(element, { ...options, lazy: true });
+    expect(aracari.mapping).toEqual([]);
+    expect([...aracari.iterateText()]).toEqual(mapping);
+
+    const scheduler = jest.fn((callback: () => void) => setTimeout(callback));
+    await expect(
+      aracari.remapInChunks({ timeSlice: 0, scheduler })
+    ).resolves.toBe(aracari);
+    expect(aracari.mapping).toEqual(mapping);
+    expect(scheduler.mock.calls.length).toBeGreaterThan(1);
+  });
+  test("getMappingForNode should map a subtree with the addresses of the root", () => {
+    expect(aracari.getMappingForNode("0.21")).toEqual([["toucans", "0.21.0"]]);
+    const bold = aracari.getNodeByAddress("0.1")!;
+    expect(aracari.getMappingForNode(bold)).toEqual([["aracari", "0.1.0"]]);
+  });
+  test("getText when passed attributes should read their text as entries of their own", () => {
+    const element = document.createElement("div");
+    element.innerHTML = `<p>See <a title="Toucan">toucans</a> <img alt="A toucan"></p><input placeholder="Search" value="toucan">`;
+    aracari = new Aracari(element, {
+      attributes: ["title", "alt", "placeholder", "value"],
+      blockSeparator: "\n",
+    });
+    expect(aracari.mapping).toEqual([
+      ["See ", "0.0"],
+      ["\n", "0.1@title::before"],
+      ["Toucan", "0.1@title"],
+      ["\n", "0.1@title::after"],
+      ["toucans", "0.1.0"],
+      [" ", "0.2"],
+      ["\n", "0.3@alt::before"],
+      ["A toucan", "0.3@alt"],
+      ["\n", "0.3@alt::after"],
+      ["Search", "1@placeholder"],
+      ["\n", "1@placeholder::after"],
+      ["toucan", "1@value"],
+    ]);
+    expect(
+      aracari.search("toucan", { preserveWord: true }).map((x) => x.address)
+    ).toEqual(["0.3@alt", "1@value"]);
+    expect(aracari.getEntries()[2]).toMatchObject({
+      isTextNode: false,
+      tagName: "a",
+      attribute: "title",
+    });
+    const anchor = aracari.createAnchor(aracari.search("Toucan")[0]);
+    expect(anchor.path).toMatchObject({ address: "0.1@title", startOffset: 0 });
+    expect(aracari.resolveAnchor(anchor)!.segments).toEqual([
+      { address: "0.1@title", startOffset: 0, endOffset: 6 },
+    ]);
+  });
+  test("replaceText should replace text in an attribute as a string", () => {
+    const element = document.createElement("div");
+    element.innerHTML = `<img alt="A toucan in a tree"><input value="toucan">`;
+    aracari = new Aracari(element, { attributes: ["alt", "value"] });
+    const input = element.childNodes[1] as HTMLInputElement;
+    aracari.replaceText("toucan", "aracari");
+    expect(element.innerHTML).toBe(
+      `<img alt="A aracari in a tree"><input value="toucan">`
+    );
+    aracari.replaceText("toucan", document.createTextNode("aracari"), {
+      at: "1@value",
+    });
+    expect(input.value).toBe("aracari");
+    expect(() => aracari.replaceText("tree", "branch")).toThrowError(
+      expect.objectContaining({ code: "stale-address", address: "0@alt" })
+    );
+    aracari.undo();
+    aracari.undo();
+    expect(element.innerHTML).toBe(
+      `<img alt="A toucan in a tree"><input value="toucan">`
+    );
+    // Attribute text is kept apart even without a block separator.
+    expect(aracari.getText()).toBe("A toucan in a tree\ntoucan");
+  });
+  test("replaceAll should replace the text a user typed in a field", () => {
+    const element = document.createElement("div");
+    element.innerHTML = `<input value="bar">`;
+    const input = element.firstChild as HTMLInputElement;
+    input.value = "user typed bar";
+    aracari = new Aracari(element, { attributes: ["value"] });
+    expect(aracari.getText()).toBe("user typed bar");
+    aracari.replaceAll("bar", () => "baz");
+    expect(input.value).toBe("user typed baz");
+    expect(input.getAttribute("value")).toBe("bar");
+    aracari.undo();
+    expect(input.value).toBe("user typed bar");
+  });
 });
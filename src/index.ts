@@ -1,38 +1,386 @@
-import { createRegExpSearch, escapeRegExp, getSurroundingChars, joinArrayWith } from "./utils";
+import { Adapter, containsNode, createDOMAdapter } from "./adapters";
+import { Anchor, createQuote, findQuote } from "./anchors";
+import { diffMappings, TextChange } from "./diff";
+import { AracariError, AracariResult, describeMatcher } from "./errors";
+import { createHastAdapter, HastNode, HastRoot } from "./hast";
+import { applyChange, ChangeLog, ChangeType } from "./history";
+import { parseHTML } from "./html";
+import {
+  createNodeRef,
+  getFingerprint,
+  Mapping,
+  MappingEntry,
+  MAPPING_VERSION,
+  parseMapping,
+  SerializedMapping,
+} from "./mapping";
+import {
+  compileMatcher,
+  findMatches,
+  Matcher,
+  normalizeText,
+  MatcherOptions,
+  TextMatch,
+} from "./matcher";
+import {
+  blockElements,
+  collapsibleWhitespace,
+  DEFAULT_EXCLUDE,
+  FRAME_DOCUMENT,
+  fromSourceOffset,
+  getAttributeName,
+  getNodePath,
+  getSelectorAttributes,
+  getSourceText,
+  isTextNodeAddress,
+  PathSegment,
+  SHADOW_ROOT,
+  toSourceOffset,
+} from "./text";
+import { compareAddresses, scheduleIdle, Scheduler } from "./utils";
 
-export { escapeRegExp } from "./utils";
+export { escapeRegExp, scheduleIdle } from "./utils";
+export type { Scheduler } from "./utils";
+export { DEFAULT_EXCLUDE, TEXT_ATTRIBUTES } from "./text";
+export { createDOMAdapter } from "./adapters";
+export { diffMappings } from "./diff";
+export { AracariError } from "./errors";
+export { createHastAdapter } from "./hast";
+export { parseHTML, toHTML } from "./html";
+export type { Adapter } from "./adapters";
+export type { Anchor } from "./anchors";
+export type { TextChange, TextChangeSide, TextChangeType } from "./diff";
+export type { AracariErrorCode, AracariResult } from "./errors";
+export type { AttributeChange, ChangeRecord, ChangeType } from "./history";
+export type {
+  HastComment,
+  HastDoctype,
+  HastElement,
+  HastNode,
+  HastParent,
+  HastRoot,
+  HastText,
+} from "./hast";
+export type {
+  Mapping,
+  MappingEntry,
+  NodeRef,
+  SerializedMapping,
+} from "./mapping";
+export type { Matcher, TermDictionary } from "./matcher";
 
-interface Config {
+interface Config<N = Node> {
   textNodeType: number;
   createTextNode?: (text: string) => Node;
+  // Used in place of the DOM, textNodeType and createTextNode are only used
+  // by the default DOM adapter.
+  adapter?: Adapter<N>;
+  // Added to the text between block elements, like paragraphs.
+  blockSeparator?: string;
+  // Added to the text for <br> elements.
+  lineBreak?: string;
+  // Collapses whitespace the way it is rendered, outside of <pre> elements.
+  collapseWhitespace?: boolean;
+  // Elements to leave out of the text, defaults to DEFAULT_EXCLUDE.
+  exclude?: string | ((node: N) => boolean);
+  // Reads the text in open shadow roots, with slotted nodes where their slot
+  // is, and in the documents of same origin frames.
+  shadowRoots?: boolean;
+  frames?: boolean;
+  // Attributes to read into the mapping, like TEXT_ATTRIBUTES. Their text is
+  // kept apart from the text around it like a block.
+  attributes?: string[];
+  // Leaves the mapping empty until remap or remapInChunks is called, for
+  // roots that are too big to map when aracari is created.
+  lazy?: boolean;
+  // Number of changes or transactions kept to undo, defaults to 100.
+  historyLimit?: number;
 }
 
-interface ReplaceOptions {
+interface ChunkOptions {
+  // Milliseconds of work to do before waiting for the scheduler.
+  timeSlice?: number;
+  // Runs the next chunk, defaults to requestIdleCallback.
+  scheduler?: Scheduler;
+}
+
+// Nodes left to walk at one level of the tree, with the path segments that
+// are added to the first depth segments of the path to get to each node.
+interface WalkFrame<N> {
+  nodes: [N, PathSegment[]][];
+  depth: number;
+  index: number;
+  // Path to put back once the nodes are walked, for frames with a depth of 0
+  // that replace the whole path, like the nodes in a slot.
+  parentPath?: PathSegment[];
+  // Called once all of the nodes are walked.
+  exit?: () => void;
+}
+
+interface MappingState {
+  mapping: Mapping;
+  // Separator and address of the block boundary waiting for more text before
+  // the separator is added.
+  pendingSeparator: string[] | null;
+  // Last entry if its whitespace was collapsed, so trailing whitespace can be
+  // dropped at the end of a block.
+  collapsedEntry: string[] | null;
+  hasText: boolean;
+  endsWithSpace: boolean;
+  preDepth: number;
+}
+
+// Narrows down matches by what is around them.
+interface ContextOptions {
+  // Text that has to be right before or after the match.
+  prefix?: string;
+  suffix?: string;
+  // Selectors for elements the match has to be inside of, or can not be
+  // inside of.
+  within?: string;
+  notWithin?: string;
+}
+
+interface ReplaceOptions extends MatcherOptions, ContextOptions {
   at?: string;
-  preserveWord?: boolean;
+  // Index of the match in the text node.
   replacementIndex?: number;
-  caseSensitive?: boolean;
+  // Index of the match in the whole root, used in place of replacementIndex.
+  occurrence?: number;
+  acrossNodes?: boolean;
+}
+
+export interface RangeSegment {
+  address: string;
+  startOffset: number;
+  endOffset: number;
 }
 
-type Mapping = string[][];
+export interface WrapContext {
+  // Text of the match that is being wrapped.
+  match: string;
+  // Part of the match inside of this wrapper, a match that spans multiple
+  // text nodes will have one wrapper per text node.
+  text: string;
+  // Index of the match in the text.
+  index: number;
+  // Index of the text node in the match.
+  segment: number;
+}
+
+export interface WrapHandle<N = Node> {
+  text: string;
+  wrappers: N[];
+  unwrap: () => void;
+}
+
+interface SearchOptions extends MatcherOptions, ContextOptions {
+  at?: string;
+  acrossNodes?: boolean;
+}
+
+export interface SearchMatch {
+  text: string;
+  captures: (string | undefined)[];
+  groups?: { [name: string]: string };
+  // Value of the matched term when searching with a dictionary of terms.
+  value?: unknown;
+  // Start and end of the match in the text from getText.
+  start: number;
+  end: number;
+  // Address of the text node the match starts in, the offsets are the start
+  // of the match in that node and the end of the match in the last node.
+  address: string;
+  startOffset: number;
+  endOffset: number;
+  segments: RangeSegment[];
+}
 
-export class Aracari<T extends HTMLElement = HTMLElement> {
+interface WrapOptions extends MatcherOptions, ContextOptions {
+  at?: string;
+  index?: number;
+}
+
+interface SegmentEdit<N> extends RangeSegment {
+  createNodes: (text: string) => N[];
+}
+
+export interface ReplaceContext<N = Node> {
+  // Index of the match in the matches that were found.
+  index: number;
+  // Text node the match starts in, or the element for text in an attribute.
+  node: N;
+  // Text from getText right before and after the match.
+  prefix: string;
+  suffix: string;
+}
+
+// Returns the nodes or text to put in place of the match, or null to leave
+// the match as it is.
+export type ReplaceProducer<N = Node> = (
+  match: SearchMatch,
+  context: ReplaceContext<N>
+) => N | N[] | string | null;
+
+export interface ReplaceReport<N = Node> {
+  replacements: { match: SearchMatch; nodes: N[] }[];
+  // Matches the producer returned null for.
+  skipped: SearchMatch[];
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+  segments: RangeSegment[];
+}
+
+export interface TextPosition {
+  address: string;
+  offset: number;
+}
+
+export interface MappingValidation {
+  valid: boolean;
+  // The mapping has the same entries as a mapping made from the root now.
+  fingerprintMatches: boolean;
+  // Addresses of entries that do not point at a node with the same text.
+  staleAddresses: string[];
+}
+
+type TextListener = (text: string) => void;
+
+export class Aracari<T = HTMLElement, N = Node> {
   root: T | undefined;
   mapping: string[][];
-  config: Config;
+  config: Config<N>;
+  adapter: Adapter<N>;
+  history: ChangeLog<N>;
+  private observer: MutationObserver | null = null;
+  private listeners: TextListener[] = [];
 
-  constructor(root: T | Mapping, options: Partial<Config> | undefined = {}) {
+  constructor(
+    root: T | Mapping,
+    options: Partial<Config<N>> | undefined = {}
+  ) {
     this.config = {
-      textNodeType: options.textNodeType || Node.TEXT_NODE,
-      createTextNode:
-        options.createTextNode || document.createTextNode.bind(document),
+      // Node.TEXT_NODE
+      textNodeType: options.textNodeType || 3,
+      createTextNode: options.createTextNode,
+      adapter: options.adapter,
+      blockSeparator: options.blockSeparator ?? "",
+      lineBreak: options.lineBreak ?? "",
+      collapseWhitespace: options.collapseWhitespace ?? false,
+      exclude: options.exclude ?? DEFAULT_EXCLUDE,
+      shadowRoots: options.shadowRoots ?? false,
+      frames: options.frames ?? false,
+      attributes: options.attributes ?? [],
+      lazy: options.lazy ?? false,
+      historyLimit: options.historyLimit ?? 100,
     };
+    this.adapter =
+      options.adapter ??
+      ((createDOMAdapter(this.config) as unknown) as Adapter<N>);
+    this.history = new ChangeLog(this.adapter, this.config.historyLimit);
     if (Array.isArray(root)) {
       this.mapping = root;
-    } else if (typeof root === "object" && root.childNodes) {
+    } else if (root && typeof root === "object") {
       this.root = root;
-      this.mapping = this.getTextNodeMapping(root);
+      this.mapping = this.config.lazy
+        ? []
+        : this.getTextNodeMapping(this.getRootNode()!);
+    }
+  }
+
+  // Creates an aracari from a mapping made by toJSON, use attach to give it
+  // the root the mapping was made from.
+  static fromJSON<T = HTMLElement, N = Node>(
+    json: SerializedMapping | string,
+    options?: Partial<Config<N>>
+  ) {
+    return new Aracari<T, N>(parseMapping(json), options);
+  }
+
+  // Creates an aracari for an HTML string, use toHTML to get the HTML back
+  // after making changes.
+  static fromHTML(
+    html: string,
+    options: Omit<Partial<Config<HastNode>>, "adapter"> = {}
+  ) {
+    const root = parseHTML(html);
+    return new Aracari<HastRoot, HastNode>(root, {
+      ...options,
+      adapter: createHastAdapter(root),
+    });
+  }
+
+  // Turns the contents of the root back into HTML.
+  public toHTML() {
+    const { serialize } = this.adapter;
+    if (!this.root || !serialize) {
+      throw new Error("The root can not be turned into HTML");
+    }
+    return serialize(this.getRootNode()!);
+  }
+
+  // Makes a versioned copy of the mapping that can be stored as JSON.
+  public toJSON(): SerializedMapping {
+    return {
+      version: MAPPING_VERSION,
+      fingerprint: getFingerprint(this.mapping),
+      mapping: this.mapping,
+    };
+  }
+
+  // Sets the root of an aracari made from a mapping and checks that the
+  // mapping still matches it. The mapping is kept as it is either way, call
+  // remap to rebuild it when it is not valid.
+  public attach(root: T): MappingValidation {
+    this.disconnect();
+    this.root = root;
+    return this.validate();
+  }
+
+  // Checks the mapping against the root, every entry needs to point at a node
+  // with the same text and the root can not have any text the mapping does
+  // not have.
+  public validate(): MappingValidation {
+    const root = this.getRootNode();
+    if (!root) {
+      throw new AracariError(
+        "no-root",
+        "Aracari has no root, attach one to validate the mapping"
+      );
     }
+    const { adapter } = this;
+    const staleAddresses = this.mapping
+      .filter((entry) => {
+        const [, address] = entry;
+        const node = this.getNodeByAddress(address);
+        const attribute = getAttributeName(address);
+        if (attribute) {
+          return (
+            node === undefined ||
+            adapter.getAttribute(node, attribute) !== getSourceText(entry)
+          );
+        }
+        if (!isTextNodeAddress(address)) {
+          return node === undefined;
+        }
+        return (
+          node === undefined ||
+          !adapter.isTextNode(node) ||
+          adapter.getTextContent(node) !== getSourceText(entry)
+        );
+      })
+      .map(([, address]) => address);
+    const fingerprintMatches =
+      getFingerprint(this.getTextNodeMapping(root)) ===
+      getFingerprint(this.mapping);
+    return {
+      valid: fingerprintMatches && !staleAddresses.length,
+      fingerprintMatches,
+      staleAddresses,
+    };
   }
 
   public getText() {
@@ -70,6 +418,49 @@ export class Aracari<T extends HTMLElement = HTMLElement> {
     return node ? node[0] : null;
   }
 
+  // Gives the mapping as typed entries, with where each entry is in the text
+  // from getText and the element it is in.
+  public getEntries(): MappingEntry<N>[] {
+    let start = 0;
+    return this.mapping.map((entry) => {
+      const mappingEntry = this.createEntry(entry, start);
+      start = mappingEntry.end;
+      return mappingEntry;
+    });
+  }
+
+  // Lists the changes to the text between an earlier mapping and the root as
+  // it is now, or another mapping. The mapping is not updated.
+  public diff(previous: Mapping, next?: Mapping): TextChange[] {
+    return diffMappings(
+      previous,
+      next ?? this.getTextNodeMapping(this.getRootNode()!)
+    );
+  }
+
+  // Finds the entry the character at an index in the text from getText is
+  // part of, this can be a block separator.
+  public getEntryAtOffset(index: number): MappingEntry<N> | null {
+    let start = 0;
+    for (const entry of this.mapping) {
+      const end = start + entry[0].length;
+      if (start <= index && index < end) {
+        return this.createEntry(entry, start);
+      }
+      start = end;
+    }
+    return null;
+  }
+
+  // Finds the entries in elements that match the selector, including the
+  // separators of matching elements.
+  public getEntriesWithin(selector: string): MappingEntry<N>[] {
+    return this.getEntries().filter(({ node }) => {
+      const current = node?.deref();
+      return !!current && this.isWithin(current, selector);
+    });
+  }
+
   public isInSingleNode(text: string, caseSensitive: boolean = true) {
     return !!this.getAddressForText(text, caseSensitive);
   }
@@ -80,81 +471,705 @@ export class Aracari<T extends HTMLElement = HTMLElement> {
     return this.getNodeByAddress(address);
   }
 
+  // Replaces a match with the nodes, or with a text node for a string. In
+  // an attribute the match is replaced with the text of the nodes.
   public replaceText(
-    text: string,
-    nodes: T | Node | (T | Node)[],
+    text: Matcher,
+    nodes: N | N[] | string,
     options: ReplaceOptions = {}
   ) {
-    let node;
+    return this.transaction(() => {
+      this.replaceTextInNode(text, this.toNodes(nodes), options);
+    });
+  }
+
+  private replaceTextInNode(
+    text: Matcher,
+    nodes: N[],
+    options: ReplaceOptions
+  ) {
     const {
       at,
-      preserveWord,
       replacementIndex = 0,
-      caseSensitive = true,
+      occurrence,
+      acrossNodes,
+      ...matcherOptions
     } = options;
+    // Only whole words are replaced unless preserveWord is turned off.
+    const searchOptions = {
+      ...matcherOptions,
+      preserveWord: matcherOptions.preserveWord ?? true,
+    };
 
+    if (acrossNodes) {
+      this.replaceAcrossNodes(text, nodes, { ...options, ...searchOptions });
+      return;
+    }
+
+    const description = describeMatcher(text);
     if (at) {
-      node = this.getNodeByAddress(at);
-    } else {
-      node = this.getTextNode(text, caseSensitive, preserveWord);
+      this.getNodeForEdit(at, text);
+    }
+    const matches = this.search(text, { ...searchOptions, at });
+    // Without an occurrence the match is picked from the matches in the
+    // first text node that has one.
+    const index = occurrence ?? replacementIndex;
+    const candidates =
+      occurrence === undefined
+        ? matches.filter(({ address }) => address === matches[0].address)
+        : matches;
+    const match = candidates[index];
+
+    if (!match) {
+      const address = at ?? matches[0]?.address;
+      if (candidates.length) {
+        throw new AracariError(
+          "index-out-of-range",
+          `Text ${description} has ${candidates.length} matches${
+            occurrence === undefined ? ` in ${address}` : ""
+          }, there is no match at index ${index}`,
+          { text, address, index }
+        );
+      }
+      const spansNodes =
+        !at &&
+        !!this.search(text, { ...searchOptions, acrossNodes: true }).length;
+      throw spansNodes
+        ? new AracariError(
+            "spans-multiple-nodes",
+            `Text ${description} spans multiple text nodes, pass acrossNodes to replace it`,
+            { text }
+          )
+        : new AracariError(
+            "not-found",
+            `Text ${description} not found in ${at ?? "root"}`,
+            { text, address: at }
+          );
     }
+    this.getNodeForEdit(match.address, text);
 
-    const pattern = createRegExpSearch(text, preserveWord ?? true);
+    // Replace the matched text with the new nodes, keeping the text around it.
+    this.replaceSegments(
+      [{ ...match.segments[0], createNodes: () => nodes }],
+      "replace"
+    );
+  }
+
+  // Like replaceText but returns a result with the error in place of throwing
+  // an AracariError.
+  public tryReplaceText(
+    text: Matcher,
+    nodes: N | N[] | string,
+    options: ReplaceOptions = {}
+  ): AracariResult {
+    return this.attempt(() => this.replaceText(text, nodes, options));
+  }
 
+  // Replaces every match with what the producer returns for it. All of the
+  // matches are found before anything is changed so the replacements are made
+  // in one pass, the mapping is updated after. Like replaceText only whole
+  // words are matched unless preserveWord is turned off.
+  public replaceAll(
+    matcher: Matcher,
+    producer: ReplaceProducer<N>,
+    options: SearchOptions = {}
+  ): ReplaceReport<N> {
+    const matches = this.search(matcher, {
+      ...options,
+      preserveWord: options.preserveWord ?? true,
+    });
+    const text = this.getText();
+    const report: ReplaceReport<N> = { replacements: [], skipped: [] };
+    const edits: SegmentEdit<N>[] = [];
 
-    const textMatch = node?.textContent.match(pattern);
+    matches.forEach((match, index) => {
+      const { prefix, suffix } = createQuote(text, match.start, match.end);
+      const result = producer(match, {
+        index,
+        node: this.getNodeByAddress(match.address)!,
+        prefix,
+        suffix,
+      });
+      if (result === null) {
+        report.skipped.push(match);
+        return;
+      }
+      const nodes = this.toNodes(result);
+      report.replacements.push({ match, nodes });
+      // Like replaceAcrossNodes the nodes go where the match starts.
+      match.segments.forEach((segment, i) => {
+        edits.push({ ...segment, createNodes: () => (i === 0 ? nodes : []) });
+      });
+    });
 
-    // Handling text around replacement text
-    if (!textMatch) {
-      throw new Error(`Text "${text}" not found in node in ${node?.textContext ?? "unknown"}`);
-    }
+    this.transaction(() => {
+      this.replaceSegments(edits, "replace");
+    });
+    this.remap();
+    return report;
+  }
+
+  // Wraps every match of the text, or only the match at options.index, with
+  // elements made by the factory. Matches can span multiple text nodes, in
+  // which case every text node gets its own wrapper. The mapping is updated
+  // after the wrappers are added.
+  public wrapText(
+    text: Matcher,
+    factory: (context: WrapContext) => N,
+    options: WrapOptions = {}
+  ): WrapHandle<N>[] {
+    const { index, ...searchOptions } = options;
+    const matches = this.search(text, { ...searchOptions, acrossNodes: true });
+    const handles: WrapHandle<N>[] = [];
+    const edits: SegmentEdit<N>[] = [];
 
-    const contents = node.textContent.split(pattern);
-    const [preChar, postChar] = getSurroundingChars(textMatch[replacementIndex]);
+    matches.forEach((match, matchIndex) => {
+      if (index !== undefined && index !== matchIndex) {
+        return;
+      }
+      const handle: WrapHandle<N> = {
+        text: match.text,
+        wrappers: [],
+        unwrap: () => {
+          this.unwrap(handle);
+        },
+      };
+      match.segments.forEach((segment, segmentIndex) => {
+        edits.push({
+          ...segment,
+          createNodes: (segmentText) => {
+            const wrapper = factory({
+              match: match.text,
+              text: segmentText,
+              index: matchIndex,
+              segment: segmentIndex,
+            });
+            this.adapter.insertBefore(
+              wrapper,
+              this.maybeCreateTextNode(segmentText)!,
+              null
+            );
+            handle.wrappers.push(wrapper);
+            return [wrapper];
+          },
+        });
+      });
+      handles.push(handle);
+    });
 
-    const preText = joinArrayWith(contents.slice(0, replacementIndex + 1), ({ nextIndex }) => {
-      const [preChar, postChar] = getSurroundingChars(textMatch[nextIndex - 1]);
-      return `${preChar}${text}${postChar}`;
+    this.transaction(() => {
+      this.replaceSegments(edits, "wrap");
     });
-    const postText = joinArrayWith(contents.slice(replacementIndex + 1), ({ nextIndex}) => {
-      const [preChar, postChar] = getSurroundingChars(textMatch[nextIndex]);
-      return `${preChar}${text}${postChar}`;
-    });    
+    this.remap();
+    return handles;
+  }
 
-    const replacementNodes = [
-      this.maybeCreateTextNode(preText + preChar),
-      ...(Array.isArray(nodes) ? nodes : [nodes]),
-      this.maybeCreateTextNode(postChar + postText),
-    ].filter((x) => x);
+  // Removes the wrappers added by wrapText, putting their text back in place
+  // and joining it with the text around it. The mapping is updated after.
+  public unwrap(handles: WrapHandle<N> | WrapHandle<N>[]) {
+    const { adapter } = this;
+    this.transaction(() => {
+      (Array.isArray(handles) ? handles : [handles]).forEach((handle) => {
+        handle.wrappers.forEach((wrapper) => {
+          if (!adapter.getParentNode(wrapper)) {
+            return;
+          }
+          const previous = adapter.getPreviousSibling(wrapper);
+          const next = adapter.getNextSibling(wrapper);
+          const children = adapter.getChildNodes(wrapper);
+          // The children themselves are moved out, so handles to wrappers
+          // inside of this one keep working, and moved back on undo.
+          this.replaceNode("unwrap", wrapper, children, undefined, wrapper);
+          this.joinTextNodes([previous, ...children, next]);
+        });
+      });
+    });
+    return this.remap();
+  }
 
-    // Replace existing text node with new node-list.
-    node.replaceWith(...replacementNodes);
+  // Inserts nodes at an index in the text from getText, splitting the text
+  // node at that index. See getPositionForOffset for which text node is used
+  // when the index is between two nodes.
+  public insertNodes(index: number, nodes: N | N[]) {
+    const position = this.getPositionForOffset(index);
+    if (!position) {
+      throw new AracariError(
+        "index-out-of-range",
+        `Index ${index} is outside of the text`,
+        { index }
+      );
+    }
+    const { address, offset } = position;
+    return this.transaction(() => {
+      this.replaceSegments(
+        [
+          {
+            address,
+            startOffset: offset,
+            endOffset: offset,
+            createNodes: () => (Array.isArray(nodes) ? nodes : [nodes]),
+          },
+        ],
+        "insert"
+      );
+    });
+  }
+
+  // Like insertNodes but returns a result with the error in place of throwing
+  // an AracariError.
+  public tryInsertNodes(index: number, nodes: N | N[]): AracariResult {
+    return this.attempt(() => this.insertNodes(index, nodes));
+  }
+
+  // Runs a group of changes that are undone and redone together. If the
+  // callback throws, the changes it made so far are rolled back before the
+  // error is thrown again.
+  public transaction(callback: (aracari: this) => void) {
+    this.history.begin();
+    try {
+      callback(this);
+    } catch (e) {
+      if (this.history.rollback().length) {
+        this.remap();
+      }
+      throw e;
+    }
+    this.history.commit();
+    return this;
+  }
+
+  // Reverts the last change or transaction and updates the mapping.
+  public undo() {
+    if (this.history.undo()) {
+      this.remap();
+    }
+    return this;
+  }
+
+  // Applies the last undone change or transaction and updates the mapping.
+  public redo() {
+    if (this.history.redo()) {
+      this.remap();
+    }
     return this;
   }
 
   public remap(mapping?: Mapping) {
-    this.mapping = mapping ?? this.getTextNodeMapping(this.root!);
+    // A full remap already covers any changes the observer has not seen yet.
+    this.observer?.takeRecords();
+    this.mapping = mapping ?? this.getTextNodeMapping(this.getRootNode()!);
+    return this;
+  }
+
+  // Builds the mapping a chunk at a time, waiting for the scheduler between
+  // chunks so the page stays responsive. The mapping is replaced once all of
+  // it is built, and the promise resolves with the aracari.
+  public remapInChunks({
+    timeSlice = 8,
+    scheduler = scheduleIdle,
+  }: ChunkOptions = {}): Promise<this> {
+    const root = this.getRootNode();
+    if (!root) {
+      return Promise.reject(
+        new AracariError("no-root", "Aracari has no root to remap")
+      );
+    }
+    const walk = this.walkMapping(this.getRenderedChildren(root, []));
+    const mapping: Mapping = [];
+    return new Promise((resolve, reject) => {
+      const runChunk = () => {
+        try {
+          const start = Date.now();
+          let next = walk.next();
+          while (!next.done) {
+            (next.value as Mapping).forEach((entry) => mapping.push(entry));
+            if (Date.now() - start >= timeSlice) {
+              scheduler(runChunk);
+              return;
+            }
+            next = walk.next();
+          }
+          resolve(this.remap(mapping));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      scheduler(runChunk);
+    });
+  }
+
+  // Gives the entries of the mapping as they are built, so the text can be
+  // read before the whole root is mapped. The mapping is not updated.
+  public *iterateText(): Generator<string[], void, undefined> {
+    const root = this.getRootNode();
+    if (!root) {
+      return;
+    }
+    const walk = this.walkMapping(this.getRenderedChildren(root, []));
+    for (const entries of walk) {
+      yield* entries;
+    }
+  }
+
+  // Builds the mapping for one node and what is in it, with the same
+  // addresses the entries have in the mapping of the root. Elements around
+  // the node are not looked at, so an excluded or <pre> parent is not known.
+  public getMappingForNode(node: N | string): Mapping {
+    const target =
+      typeof node === "string" ? this.getNodeByAddress(node) : node;
+    const address =
+      typeof node === "string" ? node : this.getAddressForNode(node);
+    if (target === undefined || address === null) {
+      return [];
+    }
+    return this.collectMapping({
+      nodes: [[target, getNodePath(address)]],
+      depth: 0,
+      index: 0,
+    });
+  }
+
+  // Starts watching the root for changes, the mapping is patched as the DOM
+  // changes so there is no need to call remap.
+  public observe() {
+    if (this.observer || !this.root) {
+      return this;
+    }
+    if (typeof MutationObserver === "undefined") {
+      throw new Error("Observing changes needs a DOM with MutationObserver");
+    }
+    this.observer = new MutationObserver((records) => {
+      this.patchMapping(records);
+    });
+    const observedAttributes = this.getObservedAttributes();
+    this.observer.observe((this.root as unknown) as Node, {
+      childList: true,
+      characterData: true,
+      subtree: true,
+      ...(observedAttributes === null
+        ? { attributes: true }
+        : observedAttributes.length
+        ? { attributeFilter: observedAttributes }
+        : {}),
+    });
     return this;
   }
 
+  // Stops watching the root, any changes after this need a remap.
+  public disconnect() {
+    this.observer?.disconnect();
+    this.observer = null;
+    return this;
+  }
+
+  // Calls the listener with the new text every time the observer sees the text
+  // change. Returns a function to remove the listener.
+  public subscribe(listener: TextListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((x) => x !== listener);
+    };
+  }
+
   public getNodeByAddress(address: string) {
-    const path = address.split(".").map((i) => parseInt(i, 10));
-    return this.walkNodes(this.root, path);
+    if (!this.root) {
+      throw new AracariError(
+        "no-root",
+        `Can not find the node at ${address}, aracari has no root to look in`,
+        { address }
+      );
+    }
+    return this.walkNodes(this.getRootNode(), getNodePath(address));
   }
 
-  // Takes a node and path and then will recursively call itself
-  // to find the node or return undefined
+  // Follows the path down from the parent to find the node, or returns
+  // undefined when there is no node there.
   public walkNodes(
-    parent: T | undefined,
-    path: number[]
-  ): ChildNode | undefined {
-    if (!path.length || !parent) {
-      return parent;
+    parent: N | undefined,
+    path: PathSegment[]
+  ): N | undefined {
+    const { adapter } = this;
+    let node = parent;
+    for (let i = 0; i < path.length && node !== undefined; i++) {
+      const childNth = path[i];
+      let child: N | null | undefined;
+      if (childNth === SHADOW_ROOT) {
+        child = adapter.getShadowRoot?.(node);
+      } else if (childNth === FRAME_DOCUMENT) {
+        child = adapter.getFrameDocument?.(node);
+      } else {
+        child = adapter.getChildAt(node, childNth as number);
+      }
+      node = child ?? undefined;
+    }
+    return node;
+  }
+
+  // Finds every match of a string, RegExp, list of terms or dictionary of
+  // terms. By default matches are found in each text node like the other
+  // lookups, with acrossNodes the full text is searched instead.
+  public search(matcher: Matcher, options: SearchOptions = {}): SearchMatch[] {
+    return this.filterByContext(
+      this.findSearchMatches(matcher, options),
+      options
+    );
+  }
+
+  private findSearchMatches(
+    matcher: Matcher,
+    options: SearchOptions
+  ): SearchMatch[] {
+    const { at, acrossNodes, ...matcherOptions } = options;
+    const compiled = compileMatcher(matcher, matcherOptions);
+    if (acrossNodes) {
+      // Text in attributes can only be replaced on its own, so matches that
+      // run into an attribute are left out.
+      const attributeRanges: [number, number][] = [];
+      let start = 0;
+      this.mapping.forEach(([text, address]) => {
+        if (getAttributeName(address)) {
+          attributeRanges.push([start, start + text.length]);
+        }
+        start += text.length;
+      });
+      return (
+        findMatches(compiled, this.getText())
+          .filter(({ index, text }) =>
+            attributeRanges.every(
+              ([rangeStart, rangeEnd]) =>
+                index >= rangeEnd || index + text.length <= rangeStart
+            )
+          )
+          .map((match) => ({
+            match,
+            segments: this.getSegmentsForRange(
+              match.index,
+              match.index + match.text.length
+            ),
+          }))
+          // Leave out matches of only block separators and line breaks.
+          .filter(({ segments }) => segments.length)
+          .map(({ match, segments }) =>
+            this.createSearchMatch(match, match.index, segments)
+          )
+          .filter((match) => !at || match.address === at)
+      );
+    }
+
+    const matches: SearchMatch[] = [];
+    let offset = 0;
+    this.mapping.forEach((entry) => {
+      const [text, address] = entry;
+      const nodeStart = offset;
+      offset += text.length;
+      if (
+        (at && address !== at) ||
+        !(isTextNodeAddress(address) || getAttributeName(address))
+      ) {
+        return;
+      }
+      findMatches(compiled, text).forEach((match) => {
+        const end = match.index + match.text.length;
+        matches.push(
+          this.createSearchMatch(match, nodeStart + match.index, [
+            {
+              address,
+              startOffset: toSourceOffset(entry, match.index),
+              endOffset: toSourceOffset(entry, end, true),
+            },
+          ])
+        );
+      });
+    });
+    return matches;
+  }
+
+  // Leaves out the matches that do not have the text or elements around them
+  // that the options ask for.
+  private filterByContext(matches: SearchMatch[], options: SearchOptions) {
+    const { prefix, suffix, within, notWithin } = options;
+    if (!prefix && !suffix && !within && !notWithin) {
+      return matches;
+    }
+    const text = this.getText();
+    // Text is sliced with room for combining marks that are dropped when
+    // diacritics are ignored.
+    const hasPrefix = (start: number) =>
+      normalizeText(
+        text.slice(Math.max(start - prefix!.length * 2, 0), start),
+        options
+      ).endsWith(normalizeText(prefix!, options));
+    const hasSuffix = (end: number) =>
+      normalizeText(
+        text.slice(end, end + suffix!.length * 2),
+        options
+      ).startsWith(normalizeText(suffix!, options));
+    const isWithin = (segments: RangeSegment[], selector: string) =>
+      segments.map(({ address }) =>
+        this.isWithin(this.getNodeByAddress(address)!, selector)
+      );
+
+    return matches.filter(
+      ({ start, end, segments }) =>
+        (!prefix || hasPrefix(start)) &&
+        (!suffix || hasSuffix(end)) &&
+        (!within || isWithin(segments, within).every((x) => x)) &&
+        (!notWithin || !isWithin(segments, notWithin).some((x) => x))
+    );
+  }
+
+  // Creates an anchor for a [start, end) range of the text from getText, a
+  // match from search can be passed as is.
+  public createAnchor(
+    { start, end }: { start: number; end: number },
+    contextLength?: number
+  ): Anchor {
+    const segments = this.getSegmentsForRange(start, end);
+    if (!segments.length) {
+      throw new AracariError(
+        "index-out-of-range",
+        `Range ${start}-${end} is outside of the text`,
+        { index: start }
+      );
+    }
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    return {
+      quote: createQuote(this.getText(), start, end, contextLength),
+      position: { start, end },
+      path: {
+        address: first.address,
+        startOffset: first.startOffset,
+        endAddress: last.address,
+        endOffset: last.endOffset,
+      },
+    };
+  }
+
+  // Finds the text of an anchor in the current text, the document can have
+  // changed since the anchor was made. Returns null when the text is gone.
+  public resolveAnchor({ quote, position, path }: Anchor): TextRange | null {
+    const pathStart = this.getOffsetForPosition(path.address, path.startOffset);
+    const start = findQuote(
+      this.getText(),
+      quote,
+      pathStart === null ? [position.start] : [position.start, pathStart]
+    );
+    if (start === null) {
+      return null;
+    }
+    const end = start + quote.exact.length;
+    return { start, end, segments: this.getSegmentsForRange(start, end) };
+  }
+
+  // Breaks a [start, end) range of the text from getText into the parts of
+  // each text node or attribute it covers. Offsets are offsets in the text of
+  // the text node, block separators and line breaks are left out.
+  public getSegmentsForRange(start: number, end: number): RangeSegment[] {
+    const segments: RangeSegment[] = [];
+    let offset = 0;
+    if (start >= end) {
+      return segments;
     }
-    const newPath = [...path];
-    const childNth = newPath.shift();
-    const child = parent.childNodes[childNth as number] as T | undefined;
-    return this.walkNodes(child, newPath);
+    for (const entry of this.mapping) {
+      const [text, address] = entry;
+      const nodeStart = offset;
+      offset += text.length;
+      if (
+        offset <= start ||
+        nodeStart >= end ||
+        !text.length ||
+        !(isTextNodeAddress(address) || getAttributeName(address))
+      ) {
+        continue;
+      }
+      segments.push({
+        address,
+        startOffset: toSourceOffset(entry, Math.max(start - nodeStart, 0)),
+        endOffset: toSourceOffset(
+          entry,
+          Math.min(end - nodeStart, text.length),
+          true
+        ),
+      });
+    }
+    return segments;
+  }
+
+  // Finds the text node and offset in that node for an index in the text
+  // from getText. An index between two nodes, or in a block separator,
+  // resolves to the start of the later node, except for the end of the text.
+  public getPositionForOffset(index: number): TextPosition | null {
+    let offset = 0;
+    let last: string[] | undefined;
+    if (index < 0) {
+      return null;
+    }
+    for (const entry of this.mapping) {
+      const [text, address] = entry;
+      if (!isTextNodeAddress(address)) {
+        offset += text.length;
+        continue;
+      }
+      if (index < offset + text.length) {
+        return {
+          address,
+          offset: toSourceOffset(entry, Math.max(index - offset, 0)),
+        };
+      }
+      offset += text.length;
+      last = entry;
+    }
+    return last && index <= offset
+      ? { address: last[1], offset: getSourceText(last).length }
+      : null;
+  }
+
+  // The reverse of getPositionForOffset, takes a text node (or its address)
+  // and an offset in that node and returns the index in the text from getText.
+  public getOffsetForPosition(node: N | string, offset: number = 0) {
+    const address =
+      typeof node === "string" ? node : this.getAddressForNode(node);
+    let index = 0;
+    for (const entry of this.mapping) {
+      const [text, nodeAddress] = entry;
+      if (nodeAddress === address) {
+        return offset >= 0 && offset <= getSourceText(entry).length
+          ? index + fromSourceOffset(entry, offset)
+          : null;
+      }
+      index += text.length;
+    }
+    return null;
+  }
+
+  // Builds the address of a node by walking up to the root, this returns
+  // null for nodes outside of the root. Shadow roots and frame documents are
+  // walked out of to their host element.
+  public getAddressForNode(node: N): string | null {
+    const { adapter } = this;
+    const path: PathSegment[] = [];
+    let current: N | null = node;
+    const root = this.getRootNode();
+    while (current && current !== root) {
+      const parent = adapter.getParentNode(current);
+      const host = parent ? null : adapter.getHost?.(current);
+      if (host) {
+        path.unshift(
+          adapter.getShadowRoot?.(host) === current
+            ? SHADOW_ROOT
+            : FRAME_DOCUMENT
+        );
+        current = host;
+        continue;
+      }
+      if (!parent) {
+        return null;
+      }
+      path.unshift(adapter.getChildNodes(parent).indexOf(current));
+      current = parent;
+    }
+    return current ? path.join(".") : null;
   }
 
   private getMappingsForText(
@@ -162,38 +1177,685 @@ export class Aracari<T extends HTMLElement = HTMLElement> {
     caseSensitive: boolean = true,
     preserveWord: boolean = false
   ): string[][] {
-    const delimiter = preserveWord ? "\\b" : "";
-    const pattern = new RegExp(
-      `${delimiter}${escapeRegExp(text)}${delimiter}`,
-      `${caseSensitive ? "i" : ""}g`
+    const compiled = compileMatcher(text, { caseSensitive, preserveWord });
+    return this.mapping.filter(
+      ([text, address]) =>
+        isTextNodeAddress(address) && findMatches(compiled, text).length > 0
+    );
+  }
+
+  private createSearchMatch(
+    { text, captures, groups, value }: TextMatch,
+    start: number,
+    segments: RangeSegment[]
+  ): SearchMatch {
+    return {
+      text,
+      captures,
+      groups,
+      value,
+      start,
+      end: start + text.length,
+      address: segments[0].address,
+      startOffset: segments[0].startOffset,
+      endOffset: segments[segments.length - 1].endOffset,
+      segments,
+    };
+  }
+
+  // Replaces a match that can span multiple text nodes. The replacement nodes
+  // are placed where the match starts, the rest of the matched text is
+  // removed from the following text nodes and all elements are left in place.
+  private replaceAcrossNodes(
+    text: Matcher,
+    nodes: N[],
+    options: ReplaceOptions
+  ) {
+    const { replacementIndex = 0, occurrence, ...searchOptions } = options;
+    const { at: address } = searchOptions;
+    const description = describeMatcher(text);
+    const matches = this.search(text, { ...searchOptions, acrossNodes: true });
+    const index = occurrence ?? replacementIndex;
+    const match = matches[index];
+
+    if (!match) {
+      throw matches.length
+        ? new AracariError(
+            "index-out-of-range",
+            `Text ${description} has ${matches.length} matches, there is no match at index ${index}`,
+            { text, address, index }
+          )
+        : new AracariError(
+            "not-found",
+            `Text ${description} not found in ${address ?? "root"}`,
+            { text, address }
+          );
+    }
+    const { segments } = match;
+
+    this.replaceSegments(
+      segments.map((segment, i) => ({
+        ...segment,
+        createNodes: () => (i === 0 ? nodes : []),
+      })),
+      "replace"
     );
-    return this.mapping.filter(([text]) => !!text.match(pattern));
+  }
+
+  // Swaps parts of text nodes with new nodes. Edits to the same text node are
+  // applied together so a node can be split at any number of places. In an
+  // attribute the parts are swapped with the text of the new nodes.
+  private replaceSegments(edits: SegmentEdit<N>[], type: ChangeType) {
+    const editsByAddress = new Map<string, SegmentEdit<N>[]>();
+    edits.forEach((edit) => {
+      editsByAddress.set(edit.address, [
+        ...(editsByAddress.get(edit.address) ?? []),
+        edit,
+      ]);
+    });
+    // Resolve every node before changing the DOM since addresses shift
+    // once the text nodes are split.
+    const targets = Array.from(editsByAddress, ([address, nodeEdits]) => ({
+      address,
+      node: this.getNodeForEdit(address),
+      nodeEdits: nodeEdits.sort((a, b) => a.startOffset - b.startOffset),
+    }));
+
+    targets.forEach(({ address, node, nodeEdits }) => {
+      const { adapter } = this;
+      const attribute = getAttributeName(address);
+      const content = attribute
+        ? adapter.getAttribute(node, attribute)!
+        : adapter.getTextContent(node);
+      let cursor = 0;
+      const replacementNodes: (N | null)[] = [];
+      nodeEdits.forEach(({ startOffset, endOffset, createNodes }) => {
+        replacementNodes.push(
+          this.maybeCreateTextNode(content.slice(cursor, startOffset)),
+          ...createNodes(content.slice(startOffset, endOffset))
+        );
+        cursor = endOffset;
+      });
+      replacementNodes.push(this.maybeCreateTextNode(content.slice(cursor)));
+      if (attribute) {
+        const value = (replacementNodes.filter((x) => x) as N[])
+          .map((replacement) => adapter.getTextContent(replacement))
+          .join("");
+        this.replaceAttribute(type, node, attribute, value, address);
+        return;
+      }
+      this.replaceNode(
+        type,
+        node,
+        replacementNodes.filter((x) => x) as N[],
+        address
+      );
+    });
+  }
+
+  // Swaps a node, or a run of sibling nodes, with new nodes and records the
+  // change so it can be undone.
+  private replaceNode(
+    type: ChangeType,
+    original: N | N[],
+    inserted: N[],
+    address?: string,
+    container?: N
+  ) {
+    const nodes = Array.isArray(original) ? original : [original];
+    const last = nodes[nodes.length - 1];
+    const change = {
+      type,
+      address: address ?? this.getAddressForNode(nodes[0]) ?? "",
+      original: nodes,
+      inserted,
+      parent: this.adapter.getParentNode(nodes[0])!,
+      nextSibling: this.adapter.getNextSibling(last),
+      ...(container ? { container } : {}),
+    };
+    applyChange(change, this.adapter);
+    this.history.record(change);
+  }
+
+  // Sets the value of an attribute and records the change so it can be
+  // undone.
+  private replaceAttribute(
+    type: ChangeType,
+    node: N,
+    name: string,
+    value: string,
+    address: string
+  ) {
+    const change = {
+      type,
+      address,
+      original: [],
+      inserted: [],
+      parent: node,
+      nextSibling: null,
+      attribute: {
+        name,
+        before: this.adapter.getAttribute(node, name) ?? "",
+        after: value,
+      },
+    };
+    applyChange(change, this.adapter);
+    this.history.record(change);
+  }
+
+  // Swaps each run of more than one text node in a list of siblings with a
+  // new text node that has their text.
+  private joinTextNodes(nodes: (N | null)[]) {
+    const { adapter } = this;
+    let run: N[] = [];
+    [...nodes, null].forEach((node) => {
+      if (node && adapter.isTextNode(node)) {
+        run.push(node);
+        return;
+      }
+      if (run.length > 1) {
+        const text = run.map((x) => adapter.getTextContent(x)).join("");
+        const joined = this.maybeCreateTextNode(text);
+        this.replaceNode("unwrap", run, joined ? [joined] : []);
+      }
+      run = [];
+    });
+  }
+
+  private createEntry(entry: string[], start: number): MappingEntry<N> {
+    const { adapter } = this;
+    const [text, address] = entry;
+    const isTextNode = isTextNodeAddress(address);
+    const attribute = getAttributeName(address);
+    const node = this.root ? this.getNodeByAddress(address) : undefined;
+    const element = node && isTextNode ? adapter.getParentNode(node) : node;
+    return {
+      text,
+      address,
+      start,
+      end: start + text.length,
+      isTextNode,
+      source: getSourceText(entry),
+      tagName: element ? adapter.getTagName(element) : null,
+      ...(attribute ? { attribute } : {}),
+      ...(node ? { node: createNodeRef(node) } : {}),
+    };
+  }
+
+  // Checks if the node or any of its ancestors in the root match the
+  // selector, walking out of shadow roots and frames to their host.
+  private isWithin(node: N, selector: string) {
+    const { adapter } = this;
+    const root = this.getRootNode();
+    let current: N | null = node;
+    while (current) {
+      if (adapter.matches(current, selector)) {
+        return true;
+      }
+      if (current === root) {
+        return false;
+      }
+      current =
+        adapter.getParentNode(current) ?? adapter.getHost?.(current) ?? null;
+    }
+    return false;
+  }
+
+  // Finds the text node at an address to change it, or the element for an
+  // attribute. The node has to have the text the mapping has for it or the
+  // offsets from the mapping would be off.
+  private getNodeForEdit(address: string, text?: Matcher) {
+    const { adapter } = this;
+    const node = this.getNodeByAddress(address);
+    const entry = this.getMappingFromAddress(address);
+    const attribute = getAttributeName(address);
+    const isCurrent =
+      !!node &&
+      !!entry &&
+      (attribute
+        ? adapter.getAttribute(node, attribute) === getSourceText(entry)
+        : adapter.isTextNode(node) &&
+          adapter.getTextContent(node) === getSourceText(entry));
+    if (!isCurrent) {
+      throw new AracariError(
+        "stale-address",
+        `The ${
+          attribute ? "attribute" : "text node"
+        } at ${address} does not match the mapping, the mapping may need a remap`,
+        { text, address }
+      );
+    }
+    return node;
+  }
+
+  private attempt(callback: () => void): AracariResult {
+    try {
+      callback();
+      return { ok: true };
+    } catch (error) {
+      if (error instanceof AracariError) {
+        return { ok: false, error };
+      }
+      throw error;
+    }
   }
 
   private getMappingFromAddress(address: string): string[] | undefined {
     return this.mapping.find(([text, nodeAddress]) => nodeAddress === address);
   }
 
+  // The root is typed as T so it can be narrowed by users, inside of aracari it
+  // is treated like any other node.
+  private getRootNode() {
+    return (this.root as unknown) as N | undefined;
+  }
+
+  // Turns a replacement into nodes, text is put in a new text node.
+  private toNodes(replacement: N | N[] | string): N[] {
+    if (typeof replacement === "string") {
+      return [this.maybeCreateTextNode(replacement)].filter((x) => x) as N[];
+    }
+    return ([] as N[]).concat(replacement);
+  }
+
   private maybeCreateTextNode(text: string) {
-    const { createTextNode } = this.config;
     if (!text.length) {
       return null;
     }
-    return createTextNode?.(text);
+    return this.adapter.createTextNode(text);
+  }
+
+  // Updates the mapping for the parts of the DOM in the mutation records. For
+  // added and removed nodes the entries of the parent are rebuilt, which also
+  // fixes the addresses of the siblings after the change. Text changes only
+  // update the text of their entry.
+  private patchMapping(records: MutationRecord[]) {
+    const { adapter } = this;
+    const {
+      blockSeparator,
+      lineBreak,
+      collapseWhitespace,
+      shadowRoots,
+      frames,
+      attributes,
+    } = this.config;
+    const previousText = this.getText();
+    // Separators and collapsed whitespace depend on the text before them, and
+    // slotted nodes are not in the mapping in document order, so in those
+    // cases the whole mapping is rebuilt.
+    if (
+      blockSeparator ||
+      lineBreak ||
+      collapseWhitespace ||
+      shadowRoots ||
+      frames ||
+      attributes!.length
+    ) {
+      this.remap();
+      this.notifyListeners(previousText);
+      return;
+    }
+    const parents = new Set<N>();
+    const textNodes = new Set<N>();
+    const elements = new Set<N>();
+    records.forEach(({ type, target }) => {
+      const node = (target as unknown) as N;
+      (type === "attributes"
+        ? elements
+        : type === "childList"
+        ? parents
+        : textNodes
+      ).add(node);
+    });
+    // Each element is checked once however many of its attributes changed.
+    if (
+      Array.from(elements).some((element) => this.isExclusionChanged(element))
+    ) {
+      this.remap();
+      this.notifyListeners(previousText);
+      return;
+    }
+    const isCovered = (node: N) =>
+      Array.from(parents).some(
+        (parent) => parent !== node && containsNode(adapter, parent, node)
+      );
+
+    parents.forEach((parent) => {
+      const address = this.getAddressForNode(parent);
+      // Nodes added to an excluded element are left out of the text too.
+      if (address === null || isCovered(parent) || this.isInExcluded(parent)) {
+        return;
+      }
+      const path = address ? address.split(".").map((i) => parseInt(i, 10)) : [];
+      const prefix = address ? `${address}.` : "";
+      // Entries are in document order so the entries of the parent are the
+      // ones right after its address.
+      let start = this.mapping.findIndex(
+        ([, entryAddress]) => compareAddresses(entryAddress, address) > 0
+      );
+      start = start === -1 ? this.mapping.length : start;
+      let end = start;
+      while (
+        end < this.mapping.length &&
+        this.mapping[end][1].startsWith(prefix)
+      ) {
+        end += 1;
+      }
+      this.mapping.splice(
+        start,
+        end - start,
+        ...this.getTextNodeMapping(parent, path)
+      );
+    });
+
+    textNodes.forEach((node) => {
+      const address = this.getAddressForNode(node);
+      const entry = address === null ? null : this.getMappingFromAddress(address);
+      if (entry && !isCovered(node)) {
+        entry[0] = adapter.getTextContent(node);
+      }
+    });
+
+    this.notifyListeners(previousText);
+  }
+
+  private notifyListeners(previousText: string) {
+    const text = this.getText();
+    if (text !== previousText) {
+      this.listeners.forEach((listener) => listener(text));
+    }
   }
 
   // Builds up a mapping of text and path to location of text node.
   // [['Foo Bar', '23.1.0.0']]
-  private getTextNodeMapping(parent: T, path: number[] = []) {
-    const { textNodeType } = this.config;
-    return Array.from(parent.childNodes).flatMap((node, i) => {
-      if (node.nodeType === textNodeType) {
-        return [[node.textContent, [...path, i].join(".")]];
+  // Block separators and line breaks are added as entries with the address of
+  // the element and a suffix, [['\n', '23.1::after']]. When whitespace is
+  // collapsed the text of the text node is added as a third item.
+  private getTextNodeMapping(parent: N, path: PathSegment[] = []): Mapping {
+    return this.collectMapping(this.getRenderedChildren(parent, path), path);
+  }
+
+  private collectMapping(frame: WalkFrame<N>, path: PathSegment[] = []) {
+    const mapping: Mapping = [];
+    for (const entries of this.walkMapping(frame, path)) {
+      entries.forEach((entry) => mapping.push(entry));
+    }
+    return mapping;
+  }
+
+  // Walks the nodes in the order they are read, like a TreeWalker, with a
+  // stack in place of recursion so deep trees can not overflow the call
+  // stack. The entries that are done are yielded after every node, the last
+  // entry is held back while its trailing whitespace can still be trimmed.
+  private *walkMapping(
+    frame: WalkFrame<N>,
+    parentPath: PathSegment[] = []
+  ): Generator<Mapping, void, undefined> {
+    const state: MappingState = {
+      mapping: [],
+      pendingSeparator: null,
+      collapsedEntry: null,
+      hasText: false,
+      endsWithSpace: true,
+      preDepth: 0,
+    };
+    // One path is shared by every node, so deep trees do not copy it for
+    // each level.
+    const path = [...parentPath];
+    const stack = [frame];
+    while (stack.length) {
+      const current = stack[stack.length - 1];
+      if (current.index >= current.nodes.length) {
+        stack.pop();
+        if (current.parentPath) {
+          path.length = 0;
+          current.parentPath.forEach((segment) => path.push(segment));
+        }
+        current.exit?.();
+        continue;
       }
-      if (typeof node === "object" && node?.childNodes?.length) {
-        return this.getTextNodeMapping(node as T, [...path, i]);
+      const [node, segments] = current.nodes[current.index];
+      current.index += 1;
+      path.length = current.depth;
+      segments.forEach((segment) => path.push(segment));
+      const children = this.addNodeToMapping(node, path, state);
+      if (children) {
+        if (!children.depth && path.length) {
+          children.parentPath = [...path];
+        }
+        stack.push(children);
       }
-      return [];
+      const held = state.collapsedEntry
+        ? state.mapping.lastIndexOf(state.collapsedEntry)
+        : state.mapping.length;
+      yield state.mapping.splice(0, held);
+    }
+    this.trimCollapsedEntry(state);
+    yield state.mapping.splice(0);
+  }
+
+  // Adds a text node, separator or line break to the mapping. Elements give
+  // back a frame with their children to walk next.
+  private addNodeToMapping(
+    node: N,
+    path: PathSegment[],
+    state: MappingState
+  ): WalkFrame<N> | null {
+    const { adapter } = this;
+    const { blockSeparator, lineBreak } = this.config;
+    if (adapter.isTextNode(node)) {
+      const text = adapter.getTextContent(node);
+      this.addTextToMapping(text, path.join("."), state);
+      return null;
+    }
+    const tagName = adapter.getTagName(node);
+    if (tagName !== null && this.isExcluded(node)) {
+      return null;
+    }
+    if (tagName === "br" && lineBreak) {
+      this.addSeparatorToMapping(lineBreak, `${path.join(".")}::after`, state);
+      return null;
+    }
+    const address =
+      blockSeparator && blockElements.includes(tagName as string)
+        ? path.join(".")
+        : null;
+    if (address !== null && state.hasText && !state.pendingSeparator) {
+      state.pendingSeparator = [blockSeparator!, `${address}::before`];
+    }
+    if (typeof node !== "object") {
+      return null;
+    }
+    this.addAttributesToMapping(node, path, state);
+    const isPre = tagName === "pre";
+    state.preDepth += isPre ? 1 : 0;
+    return {
+      ...this.getRenderedChildren(node, path),
+      exit: () => {
+        state.preDepth -= isPre ? 1 : 0;
+        if (address !== null && state.hasText && !state.pendingSeparator) {
+          state.pendingSeparator = [blockSeparator!, `${address}::after`];
+        }
+      },
+    };
+  }
+
+  // The nodes that are rendered inside of a node, which are in its shadow
+  // root, frame document or slot in place of its children when those are
+  // read.
+  private getRenderedChildren(node: N, path: PathSegment[]): WalkFrame<N> {
+    const { adapter } = this;
+    const { shadowRoots, frames } = this.config;
+    const shadowRoot = shadowRoots ? adapter.getShadowRoot?.(node) : null;
+    const frameDocument = frames ? adapter.getFrameDocument?.(node) : null;
+    const assignedNodes =
+      shadowRoots && adapter.getTagName(node) === "slot"
+        ? adapter.getAssignedNodes?.(node) ?? []
+        : [];
+    const getChildren = (parent: N, boundary?: PathSegment) => ({
+      nodes: adapter
+        .getChildNodes(parent)
+        .map((child, i): [N, PathSegment[]] => [
+          child,
+          boundary ? [boundary, i] : [i],
+        ]),
+      depth: path.length,
+      index: 0,
+    });
+
+    if (shadowRoot) {
+      return getChildren(shadowRoot, SHADOW_ROOT);
+    }
+    if (frameDocument) {
+      return getChildren(frameDocument, FRAME_DOCUMENT);
+    }
+    if (assignedNodes.length) {
+      // Slotted nodes are children of the host, so they keep the address
+      // they have there.
+      return {
+        nodes: assignedNodes
+          .map((assignedNode) => {
+            const address = this.getAddressForNode(assignedNode);
+            return [
+              assignedNode,
+              address === null ? null : getNodePath(address),
+            ];
+          })
+          .filter(([, nodePath]) => nodePath) as [N, PathSegment[]][],
+        depth: 0,
+        index: 0,
+      };
+    }
+    return getChildren(node);
+  }
+
+  private addTextToMapping(source: string, address: string, state: MappingState) {
+    const { collapseWhitespace } = this.config;
+    const collapses = collapseWhitespace && !state.preDepth;
+    let text = source;
+    if (collapses) {
+      text = source.replace(collapsibleWhitespace, " ");
+      const startsLine = state.endsWithSpace || !!state.pendingSeparator;
+      text = startsLine && text[0] === " " ? text.slice(1) : text;
+    }
+    if (text.length && state.pendingSeparator) {
+      const [separator, separatorAddress] = state.pendingSeparator;
+      this.addSeparatorToMapping(separator, separatorAddress, state);
+    }
+    const entry = text === source ? [text, address] : [text, address, source];
+    state.mapping.push(entry);
+    if (text.length) {
+      state.hasText = true;
+      state.endsWithSpace = / $/.test(text);
+      state.collapsedEntry = collapses ? entry : null;
+    }
+  }
+
+  // Adds the text of the attributes that are read, each one is kept apart from
+  // the text around it like a block. Without a block separator a line break
+  // is used, so attribute text is never joined to other text.
+  private addAttributesToMapping(
+    node: N,
+    path: PathSegment[],
+    state: MappingState
+  ) {
+    const { attributes, blockSeparator } = this.config;
+    const separator = blockSeparator || "\n";
+    attributes!.forEach((name) => {
+      const value = this.adapter.getAttribute(node, name);
+      if (!value || !value.trim()) {
+        return;
+      }
+      const address = `${path.join(".")}@${name}`;
+      if (state.pendingSeparator) {
+        const [pending, pendingAddress] = state.pendingSeparator;
+        this.addSeparatorToMapping(pending, pendingAddress, state);
+      } else if (state.hasText) {
+        this.addSeparatorToMapping(separator, `${address}::before`, state);
+      }
+      state.mapping.push([value, address]);
+      state.hasText = true;
+      state.pendingSeparator = [separator, `${address}::after`];
     });
   }
+
+  private addSeparatorToMapping(
+    separator: string,
+    address: string,
+    state: MappingState
+  ) {
+    this.trimCollapsedEntry(state);
+    state.mapping.push([separator, address]);
+    state.pendingSeparator = null;
+    state.endsWithSpace = true;
+  }
+
+  // Drops the whitespace at the end of a block, like it is when rendered.
+  private trimCollapsedEntry(state: MappingState) {
+    const entry = state.collapsedEntry;
+    if (entry && entry[0].endsWith(" ")) {
+      entry[0] = entry[0].slice(0, -1);
+      entry[2] = entry[2] ?? entry[0] + " ";
+    }
+    state.collapsedEntry = null;
+  }
+
+  // Checks if the node or one of its ancestors in the root is left out of
+  // the text.
+  private isInExcluded(node: N) {
+    const { adapter } = this;
+    const root = this.getRootNode();
+    let current: N | null = node;
+    while (current && current !== root) {
+      if (adapter.getTagName(current) !== null && this.isExcluded(current)) {
+        return true;
+      }
+      current = adapter.getParentNode(current);
+    }
+    return false;
+  }
+
+  // Lists the attributes the observer watches, the text attributes and the
+  // ones the exclude selector looks at. This is null when any attribute can
+  // change what is excluded.
+  private getObservedAttributes(): string[] | null {
+    const { exclude, attributes } = this.config;
+    if (typeof exclude === "function") {
+      return null;
+    }
+    const selectorAttributes = exclude ? getSelectorAttributes(exclude) : [];
+    return (
+      selectorAttributes &&
+      Array.from(new Set([...selectorAttributes, ...attributes!]))
+    );
+  }
+
+  // Checks if a change to the attributes of an element changed whether its
+  // text is left out, by comparing the mapping with what it would have now.
+  private isExclusionChanged(element: N) {
+    const address = this.getAddressForNode(element);
+    if (address === null) {
+      return false;
+    }
+    const prefix = address ? `${address}.` : "";
+    const isMapped = this.mapping.some(([, entryAddress]) =>
+      entryAddress.startsWith(prefix)
+    );
+    if (this.isInExcluded(element)) {
+      return isMapped;
+    }
+    return (
+      !isMapped &&
+      this.getTextNodeMapping(element, getNodePath(address)).some(
+        ([text]) => text.length
+      )
+    );
+  }
+
+  private isExcluded(node: N) {
+    const { exclude } = this.config;
+    return typeof exclude === "function"
+      ? exclude(node)
+      : !!exclude && this.adapter.matches(node, exclude);
+  }
 }
@@ -0,0 +1,110 @@
+/**
+ * Mapping is the text of every text node with its address, in the order the
+ * text is read. Entries can have the text of the node as a third item when
+ * the text was changed, like when whitespace is collapsed.
+ */
+export type Mapping = string[][];
+
+export const MAPPING_VERSION = 1;
+
+/**
+ * NodeRef is the part of a WeakRef aracari uses, WeakRef is not in the lib
+ * aracari targets.
+ */
+export interface NodeRef<N> {
+  deref: () => N | undefined;
+}
+
+declare const WeakRef: (new <N>(target: N) => NodeRef<N>) | undefined;
+
+/**
+ * createNodeRef holds a node without keeping it from being garbage collected,
+ * where WeakRef is not supported the node is held as is.
+ */
+export const createNodeRef = <N>(node: N): NodeRef<N> =>
+  typeof WeakRef === "undefined" ? { deref: () => node } : new WeakRef(node);
+
+/**
+ * MappingEntry is an entry of the mapping with what is known about it.
+ */
+export interface MappingEntry<N = Node> {
+  text: string;
+  address: string;
+  // Start and end of the text in the text from getText.
+  start: number;
+  end: number;
+  // False for block separators and line breaks, which are not text nodes.
+  isTextNode: boolean;
+  // Text of the text node, which is different from text when whitespace is
+  // collapsed.
+  source: string;
+  // Lower case tag name of the element the text is in, or of the element
+  // the separator is for. Null when there is no root.
+  tagName: string | null;
+  // Name of the attribute for entries with the text of an attribute, the
+  // node of these entries is the element.
+  attribute?: string;
+  node?: NodeRef<N>;
+}
+
+/**
+ * SerializedMapping is a mapping stored as JSON, it can be made in a worker or
+ * on a server and attached to a root later.
+ */
+export interface SerializedMapping {
+  version: number;
+  // Hash of the text and addresses in the mapping, the same root read with
+  // the same options always has the same fingerprint.
+  fingerprint: string;
+  mapping: Mapping;
+}
+
+/**
+ * getFingerprint hashes the entries of a mapping with 32 bit FNV-1a, this is
+ * meant to find changes and not to be secure.
+ */
+export const getFingerprint = (mapping: Mapping) => {
+  let hash = 0x811c9dc5;
+  const entries = mapping
+    .map(
+      ([text, address, source]) =>
+        `${address}\u0000${source ?? text}\u0000${text}`
+    )
+    .join("\u0001");
+  for (let i = 0; i < entries.length; i++) {
+    hash ^= entries.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+const isMapping = (mapping: unknown): mapping is Mapping =>
+  Array.isArray(mapping) &&
+  mapping.every(
+    (entry) =>
+      Array.isArray(entry) &&
+      entry.length >= 2 &&
+      entry.every((item) => typeof item === "string")
+  );
+
+/**
+ * parseMapping reads a serialized mapping, as an object or a JSON string, and
+ * checks that it is a version that can be read and that it has not changed
+ * since it was serialized.
+ */
+export const parseMapping = (json: SerializedMapping | string): Mapping => {
+  const data: SerializedMapping =
+    typeof json === "string" ? JSON.parse(json) : json;
+  if (!data || data.version !== MAPPING_VERSION) {
+    throw new Error(
+      `Mapping version ${data?.version} is not supported, expected version ${MAPPING_VERSION}`
+    );
+  }
+  if (!isMapping(data.mapping)) {
+    throw new Error("Mapping must be a list of [text, address] entries");
+  }
+  if (getFingerprint(data.mapping) !== data.fingerprint) {
+    throw new Error("Mapping does not match its fingerprint");
+  }
+  return data.mapping;
+};
@@ -0,0 +1,174 @@
+import {
+  escapeRegExp,
+  findAllMatches,
+  foldDiacritics,
+  isWholeWord,
+  isWordStart,
+  withWordEnd,
+} from "./utils";
+
+export interface TermDictionary {
+  [term: string]: unknown;
+}
+
+/**
+ * Matcher is anything aracari can search for. Strings are matched literally,
+ * lists and dictionaries of terms are matched in a single pass with longer
+ * terms winning over shorter ones, and a RegExp is used as is with its own
+ * flags.
+ */
+export type Matcher = string | RegExp | string[] | TermDictionary;
+
+export interface MatcherOptions {
+  caseSensitive?: boolean;
+  // Only match whole words, a word is a run of letters, marks and digits in
+  // any script.
+  preserveWord?: boolean;
+  // Match letters with or without accents, "aracari" finds "araçari".
+  ignoreDiacritics?: boolean;
+}
+
+export interface TextMatch {
+  text: string;
+  // Index of the match in the text that was searched.
+  index: number;
+  captures: (string | undefined)[];
+  groups?: { [name: string]: string };
+  // Value of the matched term when searching with a dictionary.
+  value?: unknown;
+}
+
+export interface CompiledMatcher {
+  pattern: RegExp;
+  // Set when the pattern could not be given word boundaries, matches are
+  // checked for whole words after they are found instead.
+  checkWords: boolean;
+  // Set when the pattern only checks where words end, matches are checked
+  // for the start of a word when they are found.
+  checkWordStart: boolean;
+  ignoreDiacritics: boolean;
+  getValue: (text: string) => unknown;
+}
+
+/**
+ * normalizeText changes text the way matching with the options compares it,
+ * so text around a match can be compared the same way.
+ */
+export const normalizeText = (
+  text: string,
+  { caseSensitive = true, ignoreDiacritics = false }: MatcherOptions = {}
+) => {
+  const value = ignoreDiacritics ? foldDiacritics(text).text : text;
+  return caseSensitive ? value : value.toLowerCase();
+};
+
+const getTerms = (matcher: string[] | TermDictionary) =>
+  Array.isArray(matcher) ? matcher : Object.keys(matcher);
+
+/**
+ * compileMatcher turns a matcher into a single global pattern, so a list of
+ * thousands of terms is still one linear pass over the text. Every lookup in
+ * aracari goes through this so matching works the same way everywhere.
+ */
+export const compileMatcher = (
+  matcher: Matcher,
+  {
+    caseSensitive = true,
+    preserveWord = false,
+    ignoreDiacritics = false,
+  }: MatcherOptions = {}
+): CompiledMatcher => {
+  if (matcher instanceof RegExp) {
+    const flags = matcher.flags.replace(/[gy]/g, "");
+    // Word boundaries need the u flag, which can change what a pattern
+    // without it means.
+    const hasUnicode = flags.includes("u");
+    const source =
+      preserveWord && hasUnicode ? withWordEnd(matcher.source) : matcher.source;
+    return {
+      pattern: new RegExp(source, `${flags}g`),
+      checkWords: preserveWord && !hasUnicode,
+      checkWordStart: preserveWord && hasUnicode,
+      ignoreDiacritics,
+      getValue: () => undefined,
+    };
+  }
+  if (typeof matcher === "string") {
+    matcher = [matcher];
+  }
+
+  const toKey = (text: string) =>
+    normalizeText(text, { caseSensitive, ignoreDiacritics });
+  const terms = getTerms(matcher)
+    .filter((term) => term.length)
+    .sort((a, b) => b.length - a.length);
+  const values = new Map<string, unknown>();
+  if (!Array.isArray(matcher)) {
+    const dictionary = matcher;
+    terms.forEach((term) => {
+      const key = toKey(term);
+      if (!values.has(key)) {
+        values.set(key, dictionary[term]);
+      }
+    });
+  }
+  // A pattern that never matches when there are no terms to search for.
+  const source = terms.length
+    ? terms
+        .map((term) =>
+          escapeRegExp(ignoreDiacritics ? foldDiacritics(term).text : term)
+        )
+        .join("|")
+    : "[^\\s\\S]";
+  return {
+    pattern: new RegExp(
+      preserveWord ? withWordEnd(source) : source,
+      caseSensitive ? "gu" : "giu"
+    ),
+    checkWords: false,
+    checkWordStart: preserveWord,
+    ignoreDiacritics,
+    getValue: (text) => values.get(toKey(text)),
+  };
+};
+
+/**
+ * findMatches finds every match of a compiled matcher in the text. When
+ * diacritics are ignored the matcher runs on the folded text and the matches
+ * are mapped back to the text that was passed in.
+ */
+export const findMatches = (
+  {
+    pattern,
+    checkWords,
+    checkWordStart,
+    ignoreDiacritics,
+    getValue,
+  }: CompiledMatcher,
+  text: string
+): TextMatch[] => {
+  const folded = ignoreDiacritics ? foldDiacritics(text) : null;
+  const searched = folded ? folded.text : text;
+  return findAllMatches(
+    pattern,
+    searched,
+    (match) =>
+      !!match[0].length &&
+      (!checkWords ||
+        isWholeWord(searched, match.index, match.index + match[0].length)) &&
+      (!checkWordStart || isWordStart(searched, match.index))
+  ).map((match) => {
+    const start = folded ? folded.starts[match.index] : match.index;
+    const end = folded
+      ? folded.ends[match.index + match[0].length - 1]
+      : match.index + match[0].length;
+    const matchText = text.slice(start, end);
+    return {
+      text: matchText,
+      index: start,
+      captures: match.slice(1),
+      groups: match.groups,
+      value: getValue(matchText),
+    };
+  });
+};
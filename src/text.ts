@@ -0,0 +1,194 @@
+/**
+ * Elements left out of the text by default, their text is never shown.
+ */
+export const DEFAULT_EXCLUDE =
+  "head, script, style, noscript, template, [hidden]";
+
+/**
+ * getSelectorAttributes lists the attributes that can change what a selector
+ * matches, classes and ids are the `class` and `id` attributes. This is null
+ * for a selector with a pseudo-class, which can depend on any attribute.
+ */
+export const getSelectorAttributes = (selector: string): string[] | null => {
+  // Attribute values are taken out so their text is not read as selectors.
+  const names: string[] = [];
+  const rest = selector.replace(
+    /\[\s*([^\s~|^$*=\]]+)[^\]]*\]/g,
+    (_, name: string) => {
+      names.push(name.toLowerCase());
+      return "";
+    }
+  );
+  if (rest.includes(":")) {
+    return null;
+  }
+  if (rest.includes(".")) {
+    names.push("class");
+  }
+  if (rest.includes("#")) {
+    names.push("id");
+  }
+  return names.filter((name, index) => names.indexOf(name) === index);
+};
+
+/**
+ * Elements that start on a new line when rendered, a block separator is added
+ * to the text before and after them.
+ */
+export const blockElements = [
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "caption",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+];
+
+/**
+ * Attributes with text that is shown to the user, pass them as the attributes
+ * option to read them into the mapping.
+ */
+export const TEXT_ATTRIBUTES = [
+  "alt",
+  "title",
+  "placeholder",
+  "aria-label",
+  "value",
+];
+
+// Whitespace that is collapsed when rendered, this leaves out non-breaking
+// spaces.
+export const collapsibleWhitespace = /[ \t\n\r\f]+/g;
+
+// Path segments for crossing from an element into its shadow root or into
+// the document of a frame, like `0.2.shadow.1.0`.
+export const SHADOW_ROOT = "shadow";
+export const FRAME_DOCUMENT = "frame";
+
+export type PathSegment = number | typeof SHADOW_ROOT | typeof FRAME_DOCUMENT;
+
+/**
+ * isTextNodeAddress checks that an address points at a text node, entries like
+ * block separators have addresses with a suffix like `0.1::after`.
+ */
+export const isTextNodeAddress = (address: string) =>
+  /^((\d+|shadow|frame)(\.(\d+|shadow|frame))*)?$/.test(address);
+
+/**
+ * getAttributeName takes the name of the attribute out of the address of an
+ * attribute entry like `0.3@title`, this is null for any other address.
+ */
+export const getAttributeName = (address: string) => {
+  const match = /^[^:@]*@([^:@]+)$/.exec(address);
+  return match ? match[1] : null;
+};
+
+/**
+ * getNodePath takes the path of child indexes and boundaries out of an
+ * address.
+ */
+export const getNodePath = (address: string): PathSegment[] => {
+  const [nodeAddress] = address.split(/::|@/);
+  return nodeAddress
+    ? nodeAddress
+        .split(".")
+        .map((segment) =>
+          segment === SHADOW_ROOT || segment === FRAME_DOCUMENT
+            ? segment
+            : parseInt(segment, 10)
+        )
+    : [];
+};
+
+/**
+ * alignCollapsedText finds the index in the source of every character of text
+ * that was made by collapsing the whitespace of the source.
+ */
+const alignCollapsedText = (text: string, source: string) => {
+  const indexes: number[] = [];
+  let sourceIndex = 0;
+  for (let i = 0; i < text.length; i++) {
+    while (
+      sourceIndex < source.length &&
+      source[sourceIndex] !== text[i] &&
+      !(text[i] === " " && /[ \t\n\r\f]/.test(source[sourceIndex]))
+    ) {
+      sourceIndex += 1;
+    }
+    indexes.push(sourceIndex);
+    sourceIndex += 1;
+  }
+  return indexes;
+};
+
+/**
+ * toSourceOffset turns an offset in the text of a mapping entry into an offset
+ * in the text node. Entries only have a third item, the text of the text node,
+ * when its whitespace was collapsed. End offsets are placed right after the
+ * character before them so the whitespace that was dropped is left out.
+ */
+export const toSourceOffset = (
+  entry: string[],
+  offset: number,
+  isEnd: boolean = false
+) => {
+  const [text, , source] = entry;
+  if (source === undefined) {
+    return offset;
+  }
+  const indexes = alignCollapsedText(text, source);
+  if (isEnd) {
+    return offset > 0 ? indexes[offset - 1] + 1 : 0;
+  }
+  return offset < text.length ? indexes[offset] : source.length;
+};
+
+/**
+ * fromSourceOffset is the reverse of toSourceOffset, it turns an offset in the
+ * text node into an offset in the text of the mapping entry.
+ */
+export const fromSourceOffset = (entry: string[], offset: number) => {
+  const [text, , source] = entry;
+  if (source === undefined) {
+    return offset;
+  }
+  return alignCollapsedText(text, source).filter((index) => index < offset)
+    .length;
+};
+
+/**
+ * getSourceText is the text of the text node for a mapping entry.
+ */
+export const getSourceText = ([text, , source]: string[]) => source ?? text;
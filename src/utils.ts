@@ -1,8 +1,10 @@
 const reRegExpChar = /[\\^$.*+?()[\]{}|]/g;
 const reHasRegExpChar = RegExp(reRegExpChar.source);
-const wordBoundaryChars = [".", "!", "?", "'", '"', "\\-", ",", "\\s"];
-const wordBoundaryStartsWith = new RegExp(`^[${wordBoundaryChars.join("")}]`);
-const wordBoundaryEndsWith = new RegExp(`[${wordBoundaryChars.join("")}]$`);
+// Letters, marks and digits in any script, word boundaries are anything else.
+const wordChar = "[\\p{L}\\p{M}\\p{N}_]";
+const endsWithWordChar = new RegExp(`${wordChar}$`, "u");
+const startsWithWordChar = new RegExp(`^${wordChar}`, "u");
+const markPattern = new RegExp("\\p{M}", "gu");
 
 /**
  * Escapes the `RegExp` special characters "^", "$", "\", ".", "*", "+",
@@ -18,34 +20,144 @@ export const escapeRegExp = (text: string) => {
     : text || "";
 };
 
-export const createRegExpSearch = (search: string, preserveWord: boolean) => {
-  const startDelimiter = preserveWord
-    ? `(?:^|[${wordBoundaryChars.join("")}])`
-    : "";
-  const endDelimiter = preserveWord
-    ? `(?:$|[${wordBoundaryChars.join("")}])`
-    : "";
-  const pattern = `${startDelimiter}${escapeRegExp(search)}${endDelimiter}`;
-  return new RegExp(pattern, "g");
+/**
+ * withWordEnd makes a pattern source only match where a word ends. The
+ * boundary is a lookahead so it is not part of the match, the pattern needs
+ * the `u` flag. Lookbehinds are not supported everywhere, so the start of the
+ * word is checked with isWordStart after the match is found.
+ */
+export const withWordEnd = (source: string) =>
+  `(?:${source})(?!${wordChar})`;
+
+/**
+ * isWordStart checks that the text at index does not continue a word from
+ * the characters before it.
+ */
+export const isWordStart = (text: string, index: number) =>
+  // Two code units are enough for a character outside of the BMP.
+  !endsWithWordChar.test(text.slice(Math.max(index - 2, 0), index));
+
+/**
+ * isWholeWord checks that the text from start to end is not part of a longer
+ * word, for patterns that can not use withWordEnd.
+ */
+export const isWholeWord = (text: string, start: number, end: number) =>
+  isWordStart(text, start) &&
+  !startsWithWordChar.test(text.slice(end, end + 2));
+
+/**
+ * foldDiacritics takes the accents off of the letters in the text, so "araçari"
+ * becomes "aracari". The start and end of the source character for each code
+ * unit of the folded text are kept to map matches back to the source.
+ */
+export const foldDiacritics = (text: string) => {
+  let folded = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const decomposed = char.normalize("NFD");
+    const base = decomposed.replace(markPattern, "");
+    // Characters without marks are kept as is, like Hangul syllables which
+    // decompose into letters.
+    const value = base === decomposed ? char : base;
+    if (!value.length && ends.length) {
+      // A mark on its own belongs to the character before it.
+      ends[ends.length - 1] = index + char.length;
+    }
+    for (let i = 0; i < value.length; i++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    folded += value;
+    index += char.length;
+  }
+  return { text: folded, starts, ends };
+};
+
+/**
+ * compareAddresses sorts addresses in document order, an address comes before
+ * the addresses of the nodes inside of it.
+ */
+export const compareAddresses = (a: string, b: string) => {
+  // Shadow roots and frame documents come before the children of an element.
+  const toIndexes = (address: string) =>
+    address
+      ? address.split(".").map((i) => (/^\d+$/.test(i) ? parseInt(i, 10) : -1))
+      : [];
+  const pathA = toIndexes(a);
+  const pathB = toIndexes(b);
+  for (let i = 0; i < Math.min(pathA.length, pathB.length); i++) {
+    if (pathA[i] !== pathB[i]) {
+      return pathA[i] - pathB[i];
+    }
+  }
+  return pathA.length - pathB.length;
 };
 
-export const getSurroundingChars = (matchText: string): [string, string] => {
-  const leadingChar = wordBoundaryStartsWith.test(matchText)
-    ? matchText.charAt(0)
-    : "";
-  const endingChar = wordBoundaryEndsWith.test(matchText)
-    ? matchText.charAt(matchText.length - 1)
-    : "";
-  return [leadingChar, endingChar];
+/**
+ * countMatchingChars counts how many characters match, walking from the start
+ * of both strings or from the end of both strings.
+ */
+export const countMatchingChars = (a: string, b: string, fromEnd: boolean) => {
+  const length = Math.min(a.length, b.length);
+  let count = 0;
+  while (
+    count < length &&
+    (fromEnd
+      ? a[a.length - count - 1] === b[b.length - count - 1]
+      : a[count] === b[count])
+  ) {
+    count += 1;
+  }
+  return count;
 };
 
 /**
- * joinArrayWith is a utility function that allows for joining strings but instead
- * of a value to join it with a function is called on the index of the join so
- * the values can be dynamic.
+ * findAllMatches collects every match of a global pattern in the text, this is
+ * used in place of `String.prototype.matchAll` which is not in our target lib.
+ * Matches that are not accepted are left out and the search goes on from the
+ * next character, so a match that overlaps them can still be found.
  */
-export const joinArrayWith = (arr: string[], onJoin: (params:{ nextIndex: number }) => string) => {
-  return arr.reduce((acc, cur, i) => {
-    return acc + (i === 0 ? "" : onJoin({ nextIndex: i })) + cur;
-  }, "");
-}
+export const findAllMatches = (
+  pattern: RegExp,
+  text: string,
+  accept: (match: RegExpExecArray) => boolean = () => true
+) => {
+  const matches: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+  let match = pattern.exec(text);
+  while (match) {
+    const accepted = accept(match);
+    if (accepted) {
+      matches.push(match);
+    }
+    // Avoid looping forever on empty matches.
+    if (!accepted || !match[0].length) {
+      pattern.lastIndex =
+        match.index + ((text.codePointAt(match.index) || 0) > 0xffff ? 2 : 1);
+    }
+    match = pattern.exec(text);
+  }
+  return matches;
+};
+
+/**
+ * Scheduler runs a callback later, remapInChunks uses it to wait between
+ * chunks of work.
+ */
+export type Scheduler = (callback: () => void) => void;
+
+declare const requestIdleCallback: Scheduler | undefined;
+
+/**
+ * scheduleIdle runs the callback when the browser is idle, where
+ * requestIdleCallback is not supported it runs on the next task.
+ */
+export const scheduleIdle: Scheduler = (callback) => {
+  if (typeof requestIdleCallback === "undefined") {
+    setTimeout(callback, 0);
+  } else {
+    requestIdleCallback(callback);
+  }
+};